@@ -0,0 +1,182 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { runCli } from './cli';
+import { PersistentConceptStore } from '@coeng/core/persistence';
+import { parseConcepts } from '@coeng/core/lang/parse';
+
+describe('runCli', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coeng-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const file = (name: string, source: string) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, source);
+    return filePath;
+  };
+
+  const run = async (...argv: string[]) => {
+    const output = { stdout: '', stderr: '' };
+    const code = await runCli(argv, {
+      stdin: [],
+      stdout: { write: (text: string) => (output.stdout += text) },
+      stderr: { write: (text: string) => (output.stderr += text) },
+    });
+
+    return { code, ...output };
+  };
+
+  test('prints usage', async () => {
+    expect(await run()).toMatchObject({
+      code: 1,
+      stdout: expect.stringContaining('coeng check'),
+    });
+    expect(await run('help')).toMatchObject({ code: 0 });
+    expect(await run('nope')).toMatchObject({
+      code: 1,
+      stderr: expect.stringContaining('Unknown command nope'),
+    });
+    expect(await run('expand')).toMatchObject({
+      code: 1,
+      stderr: 'Missing arguments\nUsage: coeng expand <file> [--json]\n',
+    });
+  });
+
+  test('checks files', async () => {
+    const valid = file('valid.co', 'a b');
+    const invalid = file('invalid.co', 'a b]\nc {d');
+
+    expect(await run('check', valid)).toEqual({
+      code: 0,
+      stdout: '',
+      stderr: '',
+    });
+
+    const { code, stderr } = await run('check', valid, invalid);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain(`error[UNEXPECTED_TOKEN]: Unexpected R_SQUARE
+  --> ${path.relative(process.cwd(), invalid)}:1:4`);
+    expect(stderr).toContain(`error[UNCLOSED_BRANCH]: Unclosed L_CURLY
+  --> ${path.relative(process.cwd(), invalid)}:2:3`);
+  });
+
+  test('follows imports', async () => {
+    file('people.co', 'john (person), mary]');
+    file('main.co', '@imports ./people.co\njohn knows max');
+
+    const { stderr } = await run('check', path.join(dir, 'main.co'));
+
+    expect(stderr).toContain(
+      `--> ${path.relative(process.cwd(), path.join(dir, 'people.co'))}:1:20`,
+    );
+
+    file('people.co', 'john (person)');
+
+    expect((await run('expand', path.join(dir, 'main.co'))).stdout).toBe(
+      'john person\njohn\njohn knows max\n',
+    );
+  });
+
+  test('expands files', async () => {
+    const source = file('a.co', 'john knows {mary, <<Max Power>>}');
+
+    expect((await run('expand', source)).stdout).toBe(
+      'john knows mary\njohn knows <<Max Power>>\n',
+    );
+    expect(JSON.parse((await run('expand', source, '--json')).stdout)).toEqual(
+      parseConcepts('john knows {mary, <<Max Power>>}').map(c => c.serialize()),
+    );
+  });
+
+  test('formats files', async () => {
+    const formatted = file('formatted.co', 'a {b, c}\n');
+    const unformatted = file('unformatted.co', 'a  {b,c}');
+
+    expect(await run('fmt', '--check', formatted, unformatted)).toMatchObject({
+      code: 1,
+      stdout: `${unformatted}\n`,
+    });
+    expect(fs.readFileSync(unformatted, 'utf8')).toBe('a  {b,c}');
+
+    expect(await run('fmt', formatted, unformatted)).toMatchObject({ code: 0 });
+    expect(fs.readFileSync(unformatted, 'utf8')).toBe('a {b, c}\n');
+  });
+
+  test('draws graphs', async () => {
+    const source = file('a.co', 'john knows {mary, max}\njohn likes tea');
+
+    expect((await run('graph', source, '$x knows mary')).stdout).toBe(
+      'digraph {\n  n0 [label="john"];\n  n1 [label="mary"];\n  n0 -> n1 [label="knows"];\n}\n',
+    );
+    expect((await run('graph', source, '--mermaid')).stdout).toStartWith(
+      'flowchart LR\n',
+    );
+  });
+
+  test('queries stores', async () => {
+    const storeDir = path.join(dir, 'store');
+    const store = PersistentConceptStore.open(storeDir);
+
+    parseConcepts('john knows {mary, max}, mary knows max').forEach(c =>
+      store.add(c),
+    );
+    store.close();
+
+    expect((await run('query', storeDir, '$who knows max')).stdout).toBe(
+      'john knows max\nmary knows max\n',
+    );
+
+    const { stdout } = await run('query', storeDir, 'john knows $x', '--json');
+
+    expect(
+      JSON.parse(stdout).map((match: any) => match.bindings.$x.key),
+    ).toEqual(['mary', 'max']);
+    expect(await run('query', path.join(dir, 'none'), 'a')).toMatchObject({
+      code: 1,
+      stderr: `No store found at ${path.join(dir, 'none')}\n`,
+    });
+  });
+
+  test('queries stores without writing to them', async () => {
+    const storeDir = path.join(dir, 'store');
+    const store = PersistentConceptStore.open(storeDir);
+
+    parseConcepts('john knows mary').forEach(c => store.add(c));
+    store.snapshot();
+    parseConcepts('mary knows max').forEach(c => store.add(c));
+    store.close();
+
+    const read = () =>
+      fs
+        .readdirSync(storeDir)
+        .map(name => [
+          name,
+          fs.readFileSync(path.join(storeDir, name), 'utf8'),
+        ]);
+    const query = async () =>
+      (await run('query', storeDir, '$who knows $whom')).stdout;
+
+    // Opening the store for writing would drop the torn last record
+    fs.appendFileSync(path.join(storeDir, 'log.jsonl'), '{"op":"add"');
+    let before = read();
+
+    expect(await query()).toBe('john knows mary\nmary knows max\n');
+    expect(read()).toEqual(before);
+
+    // Or create the log where there was none
+    fs.rmSync(path.join(storeDir, 'log.jsonl'));
+    before = read();
+
+    expect(await query()).toBe('john knows mary\n');
+    expect(read()).toEqual(before);
+  });
+});
@@ -0,0 +1,70 @@
+import { ParseArgsConfig, parseArgs } from 'node:util';
+import { CliCommandRegistry } from './commands';
+import { UsageError } from './errors';
+
+export type CliIo = {
+  stdin: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>;
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+};
+
+export type CliCall = {
+  args: string[];
+  options: Record<string, string | boolean | (string | boolean)[] | undefined>;
+  io: CliIo;
+};
+
+export type CliCommand = {
+  usage: string;
+  description: string;
+  options?: ParseArgsConfig['options'];
+  /** Runs the command, resolving to the exit code */
+  run: (call: CliCall) => number | Promise<number>;
+};
+
+/**
+ * Runs `coeng` with arguments such as `['check', 'a.co']`, resolving to the
+ * exit code. Errors are written to stderr rather than thrown.
+ */
+export const runCli = async (
+  argv: string[],
+  io: CliIo,
+  commands = new CliCommandRegistry(),
+): Promise<number> => {
+  const [name, ...rest] = argv;
+
+  if (!name || name === 'help' || name === '--help') {
+    io.stdout.write(commands.getUsage());
+    return name ? 0 : 1;
+  }
+
+  const command = commands.get(name);
+
+  if (!command) {
+    io.stderr.write(`Unknown command ${name}\n${commands.getUsage()}`);
+    return 1;
+  }
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: rest,
+      options: command.options ?? {},
+      allowPositionals: true,
+    });
+
+    // Arguments in angle brackets, such as <file>, are required
+    if (positionals.length < (command.usage.match(/<[^>]+>/g) ?? []).length) {
+      throw new UsageError({
+        usage: command.usage,
+        reason: 'Missing arguments',
+      });
+    }
+
+    return await command.run({ args: positionals, options: values, io });
+  } catch (error) {
+    io.stderr.write(
+      `${error instanceof Error ? error.message : String(error)}\n`,
+    );
+    return 1;
+  }
+};
@@ -0,0 +1,215 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { exportGraph } from '@coeng/core/graph';
+import { formatDiagnostic } from '@coeng/core/lang/diagnostics';
+import { formatSource } from '@coeng/core/lang/format';
+import parser, { parseConcepts } from '@coeng/core/lang/parse';
+import { printConcepts } from '@coeng/core/lang/print';
+import { SourceFile, loadSource } from '@coeng/core/loader';
+import { findMatches } from '@coeng/core/match';
+import { PersistentConceptStore } from '@coeng/core/persistence';
+import { Registry } from '@coeng/core/utils';
+import { CliCommand, CliIo } from './cli';
+import { InvalidPatternError, MissingStoreError } from './errors';
+import { Repl } from './repl';
+
+/**
+ * The subcommands of `coeng`, which hosts can extend like any other registry.
+ */
+export class CliCommandRegistry extends Registry<CliCommand> {
+  constructor() {
+    super();
+
+    this.register('check', {
+      usage: 'check <files...>',
+      description: 'Report the errors in source files and their imports',
+      run: ({ args, io }) => {
+        // Files imported by several of the files are only reported once
+        const files = new Map(
+          args
+            .flatMap(file => loadSource(file).files)
+            .map(file => [file.path, file]),
+        );
+
+        return report(Array.from(files.values()), io) ? 0 : 1;
+      },
+    });
+
+    this.register('expand', {
+      usage: 'expand <file> [--json]',
+      description: 'Print the concepts of a file and its imports',
+      options: { json: { type: 'boolean' } },
+      run: ({ args: [file], options, io }) => {
+        const { files, concepts } = loadSource(file);
+
+        if (!report(files, io)) {
+          return 1;
+        }
+
+        io.stdout.write(
+          options.json
+            ? `${JSON.stringify(concepts.map(concept => concept.serialize()))}\n`
+            : concepts.map(concept => printConcepts([concept])).join(''),
+        );
+
+        return 0;
+      },
+    });
+
+    this.register('fmt', {
+      usage: 'fmt <files...> [--check]',
+      description: 'Format source files in place, or list unformatted ones',
+      options: { check: { type: 'boolean' } },
+      run: ({ args, options, io }) => {
+        let failed = false;
+
+        args.forEach(file => {
+          const source = fs.readFileSync(file, 'utf8');
+          const { diagnostics } = parser.analyze(source);
+
+          if (
+            !report([{ path: file, source, concepts: [], diagnostics }], io)
+          ) {
+            failed = true;
+            return;
+          }
+
+          const formatted = formatSource(source);
+
+          if (formatted === source) {
+            return;
+          }
+
+          io.stdout.write(`${file}\n`);
+
+          if (options.check) {
+            failed = true;
+          } else {
+            fs.writeFileSync(file, formatted);
+          }
+        });
+
+        return failed ? 1 : 0;
+      },
+    });
+
+    this.register('graph', {
+      usage: 'graph <file> [pattern] [--mermaid]',
+      description: 'Draw the concepts of a file as a DOT or Mermaid graph',
+      options: { mermaid: { type: 'boolean' } },
+      run: ({ args: [file, source], options, io }) => {
+        const { files, concepts } = loadSource(file);
+
+        if (!report(files, io)) {
+          return 1;
+        }
+
+        io.stdout.write(
+          exportGraph(concepts, options.mermaid ? 'mermaid' : 'dot', {
+            pattern: source === undefined ? undefined : parsePattern(source),
+          }),
+        );
+
+        return 0;
+      },
+    });
+
+    this.register('query', {
+      usage: 'query <store> <pattern> [--json]',
+      description: 'Print the concepts in a store matching a pattern',
+      options: { json: { type: 'boolean' } },
+      run: ({ args: [dir, source], options, io }) => {
+        const pattern = parsePattern(source);
+        const store = openStore(dir);
+
+        try {
+          const matches = findMatches(store, pattern);
+
+          io.stdout.write(
+            options.json
+              ? `${JSON.stringify(
+                  matches.map(({ concept, bindings }) => ({
+                    concept: concept.serialize(),
+                    bindings: Object.fromEntries(
+                      Object.entries(bindings).map(([name, value]) => [
+                        name,
+                        value.serialize(),
+                      ]),
+                    ),
+                  })),
+                )}\n`
+              : matches.map(({ concept }) => printConcepts([concept])).join(''),
+          );
+
+          return 0;
+        } finally {
+          store.close();
+        }
+      },
+    });
+
+    this.register('repl', {
+      usage: 'repl <store>',
+      description: 'Run commands against a store interactively',
+      run: async ({ args: [dir], io }) => {
+        const store = PersistentConceptStore.open(dir);
+
+        try {
+          await new Repl(store, io).run();
+          return 0;
+        } finally {
+          store.close();
+        }
+      },
+    });
+  }
+
+  getUsage(): string {
+    const lines = Array.from(
+      this.entries.values(),
+      ({ usage, description }) => `  coeng ${usage.padEnd(34)} ${description}`,
+    );
+
+    return `Usage:\n${lines.join('\n')}\n`;
+  }
+}
+
+const parsePattern = (source: string) => {
+  const patterns = parseConcepts(source);
+
+  if (patterns.length !== 1) {
+    throw new InvalidPatternError({ source });
+  }
+
+  return patterns[0];
+};
+
+/**
+ * Opens an existing store to read it, rather than creating one where there was
+ * none or writing to it.
+ */
+const openStore = (dir: string) => {
+  if (!fs.existsSync(dir)) {
+    throw new MissingStoreError({ dir });
+  }
+
+  return PersistentConceptStore.open(dir, { readOnly: true });
+};
+
+/**
+ * Prints the diagnostics of files, with paths relative to the working
+ * directory, returning whether the files are free of errors.
+ */
+const report = (files: SourceFile[], io: CliIo): boolean => {
+  files.forEach(({ path: filePath, source, diagnostics }) => {
+    const relativePath = path.relative(process.cwd(), filePath);
+
+    diagnostics.forEach(diagnostic => {
+      io.stderr.write(
+        `${formatDiagnostic(source, diagnostic, relativePath)}\n\n`,
+      );
+    });
+  });
+
+  return files.every(file => !file.diagnostics.length);
+};
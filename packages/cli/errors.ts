@@ -0,0 +1,14 @@
+import { CustomError } from '@coeng/core/errors';
+
+export class UsageError extends CustomError.define<{
+  usage: string;
+  reason: string;
+}>(({ usage, reason }) => `${reason}\nUsage: coeng ${usage}`) {}
+
+export class MissingStoreError extends CustomError.define<{
+  dir: string;
+}>(({ dir }) => `No store found at ${dir}`) {}
+
+export class InvalidPatternError extends CustomError.define<{
+  source: string;
+}>(({ source }) => `Pattern ${source} does not expand to a single concept`) {}
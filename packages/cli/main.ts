@@ -0,0 +1,10 @@
+#!/usr/bin/env bun
+import { runCli } from './cli';
+
+runCli(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+}).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,65 @@
+import { describe, test, expect } from 'bun:test';
+import { Repl } from './repl';
+import { ConceptStore } from '@coeng/core/store';
+
+describe('Repl', () => {
+  const run = async (...lines: string[]) => {
+    const store = new ConceptStore();
+    const output = { stdout: '', stderr: '' };
+    const repl = new Repl(store, {
+      stdin: lines.map(line => `${line}\n`),
+      stdout: { write: (text: string) => (output.stdout += text) },
+      stderr: { write: (text: string) => (output.stderr += text) },
+    });
+
+    repl.prompt = '';
+    repl.continuationPrompt = '';
+
+    await repl.run();
+
+    return { store, ...output };
+  };
+
+  test('adds concepts and prints the results of commands', async () => {
+    const { store, stdout } = await run(
+      'john knows {mary, max}',
+      'QUERY john knows $x',
+      'QUERY nobody knows $x',
+      'COUNT $ knows $',
+    );
+
+    expect(store.size).toBe(2);
+    expect(stdout).toBe(
+      'john knows mary\njohn knows max\nNo matches\n{"pattern":"$ knows $","count":2}\n\n',
+    );
+  });
+
+  test('continues branchings left open onto the next line', async () => {
+    const { store } = await run('john knows {', 'mary', 'max', '}');
+
+    expect(Array.from(store, c => c.key)).toEqual([
+      'john knows mary',
+      'john knows max',
+    ]);
+  });
+
+  test('prints the results of multi-clause queries', async () => {
+    const { stdout } = await run(
+      'john knows {typescript, javascript}, mary knows typescript',
+      'QUERY {',
+      '  @matches $who knows typescript',
+      '  @not $who knows javascript',
+      '}',
+    );
+
+    expect(stdout).toBe('$who=mary\n\n');
+  });
+
+  test('reports errors and carries on', async () => {
+    const { store, stderr } = await run('a b]', 'UNKNOWN x', 'c d');
+
+    expect(stderr).toContain('Unexpected R_SQUARE');
+    expect(stderr).toContain('Unknown command UNKNOWN');
+    expect(store.has('c d')).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { Concept } from '@coeng/core/concept';
+import { CommandResult, Interpreter } from '@coeng/core/command';
+import { formatDiagnostic } from '@coeng/core/lang/diagnostics';
+import parser from '@coeng/core/lang/parse';
+import { printConcepts } from '@coeng/core/lang/print';
+import { Bindings, Match } from '@coeng/core/match';
+import { ConceptStore } from '@coeng/core/store';
+import { TriggerEngine } from '@coeng/core/trigger';
+import { CliIo } from './cli';
+
+/**
+ * Reads source line by line, adding its concepts to a store and printing the
+ * results of its commands. Input that leaves a branching open continues on
+ * the next line.
+ */
+export class Repl {
+  interpreter: Interpreter;
+  io: CliIo;
+  prompt = '> ';
+  continuationPrompt = '... ';
+
+  constructor(store: ConceptStore, io: CliIo) {
+    this.interpreter = new Interpreter(new TriggerEngine(store));
+    this.io = io;
+  }
+
+  async run() {
+    let source = '';
+
+    this.io.stdout.write(this.prompt);
+
+    for await (const line of readLines(this.io.stdin)) {
+      source += `${line}\n`;
+
+      if (isIncomplete(source)) {
+        this.io.stdout.write(this.continuationPrompt);
+        continue;
+      }
+
+      await this.evaluate(source);
+      source = '';
+
+      this.io.stdout.write(this.prompt);
+    }
+
+    this.io.stdout.write('\n');
+  }
+
+  async evaluate(source: string) {
+    const { diagnostics } = parser.analyze(source);
+
+    if (diagnostics.length) {
+      diagnostics.forEach(diagnostic => {
+        this.io.stderr.write(`${formatDiagnostic(source, diagnostic)}\n`);
+      });
+      return;
+    }
+
+    try {
+      const results = this.interpreter.run(source);
+
+      await this.interpreter.engine.settled();
+
+      results.forEach(result => this.io.stdout.write(formatResult(result)));
+    } catch (error) {
+      this.io.stderr.write(
+        `${error instanceof Error ? error.message : String(error)}\n`,
+      );
+    }
+  }
+}
+
+const isIncomplete = (source: string) =>
+  parser
+    .analyze(source)
+    .diagnostics.some(
+      diagnostic =>
+        diagnostic.code === 'UNCLOSED_BRANCH' ||
+        diagnostic.code === 'UNCLOSED_COMMENT',
+    );
+
+/**
+ * Prints the matches of queries as source, the results of multi-clause queries
+ * as their bindings, and other results as JSON.
+ */
+const formatResult = ({ output }: CommandResult): string => {
+  const { matches, results } =
+    (output as { matches?: Match[]; results?: Bindings[] } | null) ?? {};
+
+  if (matches) {
+    return matches.length
+      ? matches.map(({ concept }) => printConcepts([concept])).join('')
+      : 'No matches\n';
+  }
+
+  if (results) {
+    return results.length
+      ? results.map(bindings => `${formatBindings(bindings)}\n`).join('')
+      : 'No matches\n';
+  }
+
+  return `${JSON.stringify(output, (_, value) =>
+    value instanceof Concept ? value.key : value,
+  )}\n`;
+};
+
+const formatBindings = (bindings: Bindings) =>
+  Object.entries(bindings)
+    .map(([variable, value]) => `${variable}=${Concept.wrapKey(value)}`)
+    .join(' ');
+
+async function* readLines(input: CliIo['stdin']): AsyncIterable<string> {
+  const decoder = new TextDecoder();
+  let rest = '';
+
+  for await (const chunk of input) {
+    rest +=
+      typeof chunk === 'string'
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+
+    const lines = rest.split('\n');
+    rest = lines.pop()!;
+
+    yield* lines;
+  }
+
+  if (rest) {
+    yield rest;
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'bun:test';
+import { CommandRegistry, Interpreter } from './command';
+import { Concept } from './concept';
+import { Bindings, Match } from './match';
+import { ConceptStore } from './store';
+import { TriggerEngine } from './trigger';
+
+const createInterpreter = (commands?: CommandRegistry) =>
+  new Interpreter(new TriggerEngine(new ConceptStore()), { commands });
+
+describe('Interpreter', () => {
+  test('adds concepts that are not commands', () => {
+    const interpreter = createInterpreter();
+
+    expect(interpreter.run('john knows mary, 2000 olympics')).toEqual([]);
+    expect(interpreter.engine.store.size).toBe(2);
+  });
+
+  test('executes ADD and REMOVE', () => {
+    const interpreter = createInterpreter();
+    const results = interpreter.run(`
+      ADD [john knows mary]
+      ADD john knows mary
+      REMOVE [john knows mary]
+      REMOVE [john knows max]
+    `);
+
+    expect(
+      results.map(({ output }) => {
+        const { concept, ...rest } = output as {
+          concept: Concept;
+          added?: boolean;
+          removed?: boolean;
+        };
+        return { concept: concept.key, ...rest };
+      }),
+    ).toEqual([
+      { concept: 'john knows mary', added: true },
+      { concept: 'john knows mary', added: false },
+      { concept: 'john knows mary', removed: true },
+      { concept: 'john knows max', removed: false },
+    ]);
+    expect(interpreter.engine.store.size).toBe(0);
+  });
+
+  test('executes QUERY and COUNT', () => {
+    const interpreter = createInterpreter();
+    const [query, count] = interpreter.run(`
+      john knows {mary, max}
+      QUERY $who knows mary
+      COUNT [john knows $whom]
+    `);
+
+    const { matches } = query.output as { matches: Match[] };
+
+    expect(query.command.key).toBe('QUERY $who knows mary');
+    expect(matches.map(match => match.bindings.$who.key)).toEqual(['john']);
+    expect(count.output).toMatchObject({ count: 2 });
+  });
+
+  test('executes the clauses of a query block as one query', () => {
+    const interpreter = createInterpreter();
+    const results = interpreter.run(`
+      john knows {typescript, javascript}, mary knows typescript
+      QUERY {
+        @matches $who knows typescript
+        @not $who knows javascript
+      }
+      QUERY {@matches $who knows javascript}
+    `);
+
+    expect(results.map(({ command }) => command.key)).toEqual([
+      'QUERY [@matches $who knows typescript] [@not $who knows javascript]',
+      'QUERY [@matches $who knows javascript]',
+    ]);
+    expect(
+      results.map(({ output }) =>
+        (output as { results: Bindings[] }).results.map(
+          bindings => bindings.$who.key,
+        ),
+      ),
+    ).toEqual([['mary'], ['john']]);
+  });
+
+  test('executes CLEAR', () => {
+    const interpreter = createInterpreter();
+    const [result] = interpreter.run('john knows {mary, max}, CLEAR');
+
+    expect(result.output).toEqual({ count: 2 });
+    expect(interpreter.engine.store.size).toBe(0);
+  });
+
+  test('executes commands registered by the host', () => {
+    const commands = new CommandRegistry().register('ECHO', ({ args }) =>
+      args.map(arg => arg.key),
+    );
+    const [result] = createInterpreter(commands).run('ECHO hello world');
+
+    expect(result.output).toEqual(['hello', 'world']);
+  });
+
+  test('throws on unknown and invalid commands', () => {
+    const interpreter = createInterpreter();
+
+    expect(() => interpreter.run('NASA launches rockets')).toThrow(
+      'Unknown command NASA',
+    );
+    expect(() => interpreter.run('QUERY')).toThrow(
+      'Invalid command QUERY: missing argument',
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import { Concept } from './concept';
+import { InvalidCommandError, UnknownCommandError } from './errors';
+import { findMatches } from './match';
+import parser from './lang/parse';
+import { Query, QueryDirective } from './query';
+import { TriggerEngine } from './trigger';
+import { Registry } from './utils';
+
+export type CommandCall = {
+  args: Concept[];
+  command: Concept;
+  interpreter: Interpreter;
+};
+
+export type CommandHandler = (call: CommandCall) => unknown;
+
+export type CommandResult = {
+  command: Concept;
+  output: unknown;
+};
+
+/**
+ * Commands are concepts headed by an uppercase atom, such as
+ * `QUERY $who knows mary`, or uppercase atoms on their own, such as `CLEAR`.
+ * `QUERY` also takes the clauses of a `Query`, e.g.
+ * `QUERY [@matches $who knows mary] [@not $who knows max]`.
+ */
+export class CommandRegistry extends Registry<CommandHandler> {
+  constructor() {
+    super();
+
+    this.register('ADD', ({ args, command, interpreter }) => {
+      const concept = getArgument(command, args);
+      const added = !interpreter.engine.store.has(concept);
+
+      interpreter.engine.add(concept);
+
+      return { concept, added };
+    });
+
+    this.register('REMOVE', ({ args, command, interpreter }) => {
+      const concept = getArgument(command, args);
+      const removed = interpreter.engine.store.has(concept);
+
+      interpreter.engine.remove(concept);
+
+      return { concept, removed };
+    });
+
+    this.register('QUERY', ({ args, command, interpreter }) => {
+      if (args.length && args.every(isQueryClause)) {
+        const query = Query.fromClauses(args);
+        const results = query.run(interpreter.engine.store);
+
+        return { query, results };
+      }
+
+      const pattern = getArgument(command, args);
+      const matches = findMatches(interpreter.engine.store, pattern);
+
+      return { pattern, matches };
+    });
+
+    this.register('COUNT', ({ args, command, interpreter }) => {
+      const pattern = getArgument(command, args);
+      const count = findMatches(interpreter.engine.store, pattern).length;
+
+      return { pattern, count };
+    });
+
+    this.register('CLEAR', ({ interpreter }) => {
+      const concepts = Array.from(interpreter.engine.store);
+
+      interpreter.engine.remove(...concepts);
+
+      return { count: concepts.length };
+    });
+  }
+}
+
+/**
+ * Loads concepts into a store through its trigger engine, executing the
+ * commands among them in order.
+ */
+export class Interpreter {
+  engine: TriggerEngine;
+  commands: CommandRegistry;
+
+  constructor(
+    engine: TriggerEngine,
+    options: { commands?: CommandRegistry } = {},
+  ) {
+    this.engine = engine;
+    this.commands = options.commands ?? new CommandRegistry();
+  }
+
+  run(source: string): CommandResult[] {
+    // Query clauses are only grouped with those written in the same branch
+    return Array.from(parser.parseBranches(source)).flatMap(concepts =>
+      this.load(concepts),
+    );
+  }
+
+  /**
+   * Adds concepts and executes commands, where consecutive query clauses such
+   * as `QUERY @matches $who knows mary` are executed as one query.
+   */
+  load(concepts: Iterable<Concept>): CommandResult[] {
+    const results: CommandResult[] = [];
+    let clauses: Concept[] = [];
+
+    const executeQuery = () => {
+      if (clauses.length) {
+        results.push(
+          this.execute(Concept.fromParts([new Concept('QUERY'), ...clauses])),
+        );
+        clauses = [];
+      }
+    };
+
+    for (const concept of concepts) {
+      if (isQueryCommand(concept)) {
+        clauses.push(Concept.fromParts(concept.parts.slice(1)));
+        continue;
+      }
+
+      executeQuery();
+
+      if (isCommand(concept)) {
+        results.push(this.execute(concept));
+      } else {
+        this.engine.add(concept);
+      }
+    }
+
+    executeQuery();
+
+    return results;
+  }
+
+  execute(command: Concept): CommandResult {
+    const [name, ...args] = command.parts.length ? command.parts : [command];
+    const handler = this.commands.get(name.key);
+
+    if (!handler) {
+      throw new UnknownCommandError({ name: name.key });
+    }
+
+    return {
+      command,
+      output: handler({ args, command, interpreter: this }),
+    };
+  }
+}
+
+export const isCommand = (concept: Concept): boolean =>
+  concept.is('COMMAND') || concept.is('COMMAND_NAME');
+
+const isQueryClause = (concept: Concept): boolean =>
+  concept.parts.length >= 2 &&
+  Object.values(QueryDirective).includes(concept.parts[0].key as any);
+
+/**
+ * Whether a command is a single query clause, like `QUERY @matches $x knows y`.
+ */
+const isQueryCommand = (concept: Concept): boolean =>
+  concept.is('COMMAND') &&
+  concept.parts[0].key === 'QUERY' &&
+  isQueryClause(Concept.fromParts(concept.parts.slice(1)));
+
+const getArgument = (command: Concept, args: Concept[]): Concept => {
+  if (!args.length) {
+    throw new InvalidCommandError({ command, reason: 'missing argument' });
+  }
+
+  return Concept.fromParts(args);
+};
@@ -1,2 +1,135 @@
 import { describe, test, expect } from 'bun:test';
 import { Concept } from './concept';
+
+describe('Concept', () => {
+  describe('toMask', () => {
+    test('masks variables', () => {
+      const concept = Concept.fromParts([
+        new Concept('$who'),
+        new Concept('knows'),
+        Concept.fromParts([new Concept('$lang'), new Concept('since')]),
+      ]);
+
+      expect(concept.toMask().key).toBe('$ knows [$ since]');
+      expect(new Concept('@adds').toMask().key).toBe('@adds');
+    });
+  });
+
+  describe('getTagSet', () => {
+    test('tags uppercase atoms as command names', () => {
+      expect(new Concept('QUERY').is('COMMAND_NAME')).toBe(true);
+      expect(new Concept('2000').is('COMMAND_NAME')).toBe(false);
+      expect(new Concept('2000').is('LITERAL')).toBe(true);
+    });
+
+    test('tags trigger clauses', () => {
+      const clause = Concept.fromParts([
+        new Concept('rule'),
+        new Concept('@matches'),
+        new Concept('$who'),
+        new Concept('knows'),
+        new Concept('mary'),
+      ]);
+
+      expect(clause.is('TRIGGER_CLAUSE')).toBe(true);
+      expect(clause.is('PATTERN')).toBe(false);
+    });
+  });
+
+  describe('typed literals', () => {
+    test('tags typed literals', () => {
+      const tags = [
+        '42',
+        '-1.5',
+        '2000-01-31',
+        '2000-01-31T12:00Z',
+        'true',
+        '<<HI>>',
+      ].map(key => Array.from(new Concept(key).getTagSet()));
+
+      expect(tags).toEqual([
+        ['ATOM', 'LITERAL', 'NUMBER'],
+        ['ATOM', 'LITERAL', 'NUMBER'],
+        ['ATOM', 'LITERAL', 'DATE'],
+        ['ATOM', 'LITERAL', 'DATE'],
+        ['ATOM', 'LITERAL', 'BOOLEAN'],
+        ['ATOM', 'LITERAL', 'STRING'],
+      ]);
+      expect(new Concept('2000-02-30').is('DATE')).toBe(false);
+      expect(new Concept('1.').is('NUMBER')).toBe(false);
+    });
+
+    test('reads the values of typed literals', () => {
+      expect(new Concept('-1.5').number).toBe(-1.5);
+      expect(new Concept('2000-01-31T12:00').date).toEqual(
+        new Date('2000-01-31T12:00:00Z'),
+      );
+      expect(new Concept('false').boolean).toBe(false);
+      expect(new Concept('<<a \\>> b\\n>>').string).toBe('a >> b\n');
+      expect(new Concept('mary').number).toBeUndefined();
+    });
+  });
+
+  describe('fromSortedSet', () => {
+    test('sorts and deduplicates parts', () => {
+      const concept = Concept.fromSortedSet(
+        ['z', 'b', 'a', 'c', 'a'].map(key => new Concept(key)),
+      );
+
+      expect(concept.key).toBe(':a b c z');
+      expect(concept.parts.map(part => part.key)).toEqual(['a', 'b', 'c', 'z']);
+    });
+
+    test('produces the same key regardless of order', () => {
+      const a = new Concept('a');
+      const b = Concept.fromParts([new Concept('b'), new Concept('c')]);
+
+      expect(Concept.fromSortedSet([a, b]).key).toBe(':a [b c]');
+      expect(Concept.fromSortedSet([b, a]).key).toBe(
+        Concept.fromSortedSet([a, b]).key,
+      );
+    });
+
+    test('tags sorted sets', () => {
+      const concept = Concept.fromSortedSet([
+        new Concept('b'),
+        new Concept('A'),
+      ]);
+
+      expect(concept.is('SORTED_SET')).toBe(true);
+      expect(concept.is('COMMAND')).toBe(false);
+      expect(Concept.deserialize(concept.serialize()).is('SORTED_SET')).toBe(
+        true,
+      );
+    });
+
+    test('does not tell sorted sets by their key', () => {
+      const concept = Concept.fromParts([
+        new Concept(':john'),
+        new Concept('knows'),
+        new Concept('mary'),
+      ]);
+
+      expect(concept.key).toBe(':john knows mary');
+      expect(concept.is('SORTED_SET')).toBe(false);
+      expect(Concept.deserialize(concept.serialize()).is('SORTED_SET')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('serialize', () => {
+    test('keeps doc comments', () => {
+      const concept = new Concept('john');
+      concept.doc = 'Someone';
+
+      expect(concept.serialize()).toEqual({
+        key: 'john',
+        parts: [],
+        doc: 'Someone',
+      });
+      expect(Concept.deserialize(concept.serialize()).doc).toBe('Someone');
+      expect('doc' in new Concept('mary').serialize()).toBe(false);
+    });
+  });
+});
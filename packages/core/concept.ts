@@ -1,19 +1,27 @@
 import { cached } from './utils';
+import { getLiteralTag, parseDate, unescapeString } from './literals';
 import { TriggerDirective } from './trigger';
 
 export type SerializedConcept = {
   key: string;
   parts: SerializedConcept[];
+  sorted?: boolean;
+  doc?: string;
 };
 
 export type ConceptTag =
   | 'ATOM'
   | 'LITERAL'
+  | 'NUMBER'
+  | 'DATE'
+  | 'BOOLEAN'
+  | 'STRING'
   | 'VARIABLE'
   | 'DIRECTIVE'
   | 'COMMAND_NAME'
   | 'COMMAND'
   | 'COMPOUND'
+  | 'SORTED_SET'
   | 'PATTERN'
   | 'TRIGGER_CLAUSE'
   | 'TRIGGER_NAME'
@@ -22,14 +30,23 @@ export type ConceptTag =
 export class Concept {
   key: string;
   parts: Concept[];
+  /** Whether the concept is a sorted set, whose parts aren't positional */
+  sorted: boolean;
   context?: Concept;
+  /** The text of the doc comment written above the concept, if any */
+  doc?: string;
 
-  constructor(key: string, parts: Concept[] = []) {
+  constructor(key: string, parts: Concept[] = [], sorted = false) {
     this.key = key;
     this.parts = parts;
+    this.sorted = sorted;
   }
 
-  static fromParts(parts: Concept[]) {
+  static fromParts(parts: Concept[], sorted = false) {
+    if (sorted) {
+      return Concept.fromSortedSet(parts);
+    }
+
     if (parts.length === 0) {
       return new Concept('');
     }
@@ -41,21 +58,67 @@ export class Concept {
     return new Concept(Concept.joinKeys(parts), parts);
   }
 
+  /**
+   * Creates a compound whose parts are deduplicated and sorted by key, so that
+   * sets with the same members are the same concept: `[: z b a c]` has the key
+   * `:a b c z`.
+   */
+  static fromSortedSet(parts: Concept[]) {
+    const sortedParts = Array.from(
+      new Map(parts.map(part => [part.key, part])).values(),
+    ).sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+    return new Concept(
+      `:${sortedParts.map(Concept.wrapKey).join(' ')}`,
+      sortedParts,
+      true,
+    );
+  }
+
   get size(): number {
     return this.parts.length;
   }
 
+  /** The value of a `NUMBER` atom such as `42` or `-1.5` */
+  get number(): number | undefined {
+    return this.is('NUMBER') ? Number(this.key) : undefined;
+  }
+
+  /** The value of a `DATE` atom such as `2000-01-31` or `2000-01-31T12:00Z` */
+  get date(): Date | undefined {
+    return this.is('DATE') ? parseDate(this.key) : undefined;
+  }
+
+  /** The value of a `BOOLEAN` atom, `true` or `false` */
+  get boolean(): boolean | undefined {
+    return this.is('BOOLEAN') ? this.key === 'true' : undefined;
+  }
+
+  /** The text of a `STRING` atom such as `<<some text>>` */
+  get string(): string | undefined {
+    return this.is('STRING') ? unescapeString(this.key) : undefined;
+  }
+
   static deserialize(serialized: SerializedConcept): Concept {
-    return new Concept(
+    const concept = new Concept(
       serialized.key,
       serialized.parts.map(Concept.deserialize),
+      serialized.sorted ?? false,
     );
+
+    if (serialized.doc !== undefined) {
+      concept.doc = serialized.doc;
+    }
+
+    return concept;
   }
 
   serialize(): SerializedConcept {
     return {
       key: this.key,
       parts: this.parts.map(part => part.serialize()),
+      ...(this.sorted ? { sorted: true } : {}),
+      ...(this.doc === undefined ? {} : { doc: this.doc }),
     };
   }
 
@@ -72,9 +135,17 @@ export class Concept {
       return new Concept('$');
     }
 
+    if (this.is('ATOM')) {
+      return this;
+    }
+
+    const parts = this.parts.map(part => part.toMask());
+    const prefix = this.sorted ? ':' : '';
+
     return new Concept(
-      this.key,
-      this.parts.map(part => part.toMask()),
+      `${prefix}${parts.map(Concept.wrapKey).join(' ')}`,
+      parts,
+      this.sorted,
     );
   });
 
@@ -84,11 +155,21 @@ export class Concept {
     if (this.parts.length === 0) {
       set.add('ATOM');
 
+      // Typed literals are told apart before command names, which `<<HI>>`
+      // and `2000-01-31T12:00Z` would be otherwise
+      const literalTag = getLiteralTag(this.key);
+
       if (this.key.startsWith('$')) {
         set.add('VARIABLE');
       } else if (this.key.startsWith('@')) {
         set.add('DIRECTIVE');
-      } else if (this.key.toUpperCase() === this.key) {
+      } else if (literalTag) {
+        set.add('LITERAL');
+        set.add(literalTag);
+      } else if (
+        this.key.toUpperCase() === this.key &&
+        this.key.toLowerCase() !== this.key
+      ) {
         set.add('COMMAND_NAME');
       } else {
         set.add('LITERAL');
@@ -96,26 +177,37 @@ export class Concept {
     } else {
       set.add('COMPOUND');
 
+      // Parts of sorted sets aren't positional, so they can't form commands
+      // or trigger clauses
+      const isSortedSet = this.sorted;
+
+      if (isSortedSet) {
+        set.add('SORTED_SET');
+      }
+
       const partTags = new Set<ConceptTag>();
 
       this.parts.forEach(part => {
         part.getTagSet().forEach(tag => partTags.add(tag));
       });
 
-      if (this.parts[0].is('COMMAND_NAME')) {
+      if (!isSortedSet && this.parts[0].is('COMMAND_NAME')) {
         set.add('COMMAND');
-      } else if (partTags.has('PATTERN') || partTags.has('VARIABLE')) {
-        set.add('PATTERN');
+      } else if (
+        // <trigger name> <directive> <template...>, where the template is
+        // usually a pattern, so this must be checked first
+        !isSortedSet &&
+        this.parts.length >= 3 &&
+        Object.values(TriggerDirective).includes(this.parts[1].key as any)
+      ) {
+        set.add('TRIGGER_CLAUSE');
       } else if (
         partTags.has('TRIGGER_NAME') ||
         partTags.has('TRIGGER_CLAUSE')
       ) {
         set.add('TRIGGER');
-      } else if (
-        this.parts.length === 3 &&
-        Object.values(TriggerDirective).includes(this.parts[2].key as any)
-      ) {
-        set.add('TRIGGER_CLAUSE');
+      } else if (partTags.has('PATTERN') || partTags.has('VARIABLE')) {
+        set.add('PATTERN');
       } else {
         set.add('LITERAL');
       }
@@ -133,8 +225,10 @@ export class Concept {
       return parts[0].key;
     }
 
-    return parts
-      .map(part => (part.parts.length ? `[${part.key}]` : part.key))
-      .join(' ');
+    return parts.map(Concept.wrapKey).join(' ');
+  }
+
+  static wrapKey(part: Concept): string {
+    return part.parts.length ? `[${part.key}]` : part.key;
   }
 }
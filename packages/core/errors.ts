@@ -1,3 +1,5 @@
+import { Concept } from './concept';
+
 export class CustomError extends Error {
   static define<TContext>(createMessage: (context: TContext) => string) {
     return class extends CustomError {
@@ -7,3 +9,89 @@ export class CustomError extends Error {
     };
   }
 }
+
+export class UnboundVariableError extends CustomError.define<{
+  trigger: Concept;
+  template: Concept;
+}>(
+  ({ trigger, template }) =>
+    `Trigger ${trigger.key} has unbound variables in ${template.key}`,
+) {}
+
+export class TriggerLimitError extends CustomError.define<{
+  steps: number;
+}>(
+  ({ steps }) =>
+    `Triggers did not settle after ${steps} steps, they might be adding concepts indefinitely`,
+) {}
+
+export class UnknownFunctionError extends CustomError.define<{
+  trigger: Concept;
+  name: string;
+}>(
+  ({ trigger, name }) =>
+    `Trigger ${trigger.key} called unknown function ${name}`,
+) {}
+
+export class HostFunctionError extends CustomError.define<{
+  trigger: Concept;
+  name: string;
+  cause: unknown;
+}>(
+  ({ trigger, name, cause }) =>
+    `Trigger ${trigger.key} failed calling ${name}: ${cause instanceof Error ? cause.message : cause}`,
+) {}
+
+export class HostFunctionTimeoutError extends CustomError.define<{
+  trigger: Concept;
+  name: string;
+  timeout: number;
+}>(
+  ({ trigger, name, timeout }) =>
+    `Trigger ${trigger.key} timed out calling ${name} after ${timeout}ms`,
+) {}
+
+export class UnknownCommandError extends CustomError.define<{
+  name: string;
+}>(({ name }) => `Unknown command ${name}`) {}
+
+export class InvalidCommandError extends CustomError.define<{
+  command: Concept;
+  reason: string;
+}>(({ command, reason }) => `Invalid command ${command.key}: ${reason}`) {}
+
+export class CorruptLogError extends CustomError.define<{
+  path: string;
+  line: number;
+}>(({ path, line }) => `Corrupt record in ${path} on line ${line}`) {}
+
+export class ReadOnlyStoreError extends CustomError.define<{
+  dir: string;
+}>(({ dir }) => `The store at ${dir} was opened read-only`) {}
+
+export class TransactionInProgressError extends CustomError.define<void>(
+  () => 'A transaction is already in progress',
+) {}
+
+export class NoTransactionError extends CustomError.define<void>(
+  () => 'No transaction is in progress',
+) {}
+
+export class ConstraintViolationError extends CustomError.define<{
+  trigger: Concept;
+  reason: Concept;
+}>(({ trigger, reason }) => `Trigger ${trigger.key} rejected: ${reason.key}`) {}
+
+export class InvalidQueryError extends CustomError.define<{
+  clause: Concept;
+  reason: string;
+}>(({ clause, reason }) => `Invalid query clause ${clause.key}: ${reason}`) {}
+
+export class RdfSyntaxError extends CustomError.define<{
+  format: string;
+  line?: number;
+  reason: string;
+}>(
+  ({ format, line, reason }) =>
+    `Invalid ${format}${line ? ` on line ${line}` : ''}: ${reason}`,
+) {}
@@ -0,0 +1,22 @@
+import { Concept } from './concept';
+import { Bindings } from './match';
+import { Registry } from './utils';
+
+export type HostFunctionCall = {
+  args: Concept[];
+  bindings: Bindings;
+  concept: Concept;
+  trigger: Concept;
+};
+
+export type HostFunctionResult = Concept | Concept[] | void;
+
+/**
+ * A function that triggers can call through `@calls <name> <args...>`. The
+ * concepts it returns, if any, are added back into the store.
+ */
+export type HostFunction = (
+  call: HostFunctionCall,
+) => HostFunctionResult | Promise<HostFunctionResult>;
+
+export class FunctionRegistry extends Registry<HostFunction> {}
@@ -0,0 +1,135 @@
+import { describe, test, expect } from 'bun:test';
+import { exportGraph } from './graph';
+import { parseConcepts } from './lang/parse';
+import { ConceptStore } from './store';
+
+const concepts = parseConcepts(`
+  john knows mary
+  [john knows mary] since <<"2000">>
+  [: tea coffee]
+  grandparent @matches [$a parent $b]
+`);
+
+describe('exportGraph', () => {
+  test('writes DOT', () => {
+    expect(exportGraph(concepts, 'dot')).toBe(
+      [
+        'digraph {',
+        '  n0 [label="john"];',
+        '  n1 [label="mary"];',
+        '  n2 [label="john knows mary", shape=box];',
+        '  n3 [label="knows"];',
+        '  n4 [label="<<\\"2000\\">>"];',
+        '  n5 [label=":coffee tea", shape=box];',
+        '  n6 [label="coffee"];',
+        '  n7 [label="tea"];',
+        '  n8 [label="grandparent", color="#d9480f", fontcolor="#d9480f"];',
+        '  n9 [label="$a parent $b", shape=box, color="#d9480f", fontcolor="#d9480f"];',
+        '  n10 [label="$a", color="#d9480f", fontcolor="#d9480f"];',
+        '  n11 [label="parent", color="#d9480f", fontcolor="#d9480f"];',
+        '  n12 [label="$b", color="#d9480f", fontcolor="#d9480f"];',
+        '  n0 -> n1 [label="knows"];',
+        '  n2 -> n0 [label="1", style=dashed];',
+        '  n2 -> n3 [label="2", style=dashed];',
+        '  n2 -> n1 [label="3", style=dashed];',
+        '  n2 -> n4 [label="since"];',
+        '  n5 -> n6 [style=dashed];',
+        '  n5 -> n7 [style=dashed];',
+        '  n9 -> n10 [label="1", style=dashed, color="#d9480f", fontcolor="#d9480f"];',
+        '  n9 -> n11 [label="2", style=dashed, color="#d9480f", fontcolor="#d9480f"];',
+        '  n9 -> n12 [label="3", style=dashed, color="#d9480f", fontcolor="#d9480f"];',
+        '  n8 -> n9 [label="@matches", color="#d9480f", fontcolor="#d9480f"];',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('writes Mermaid', () => {
+    expect(
+      exportGraph(
+        parseConcepts('john knows mary\njohn likes\ngreet @matches [$a]'),
+        'mermaid',
+      ),
+    ).toBe(
+      [
+        'flowchart LR',
+        '  n0("john")',
+        '  n1("mary")',
+        '  n2["john likes"]',
+        '  n3("likes")',
+        '  n4("greet")',
+        '  n5("$a")',
+        '  n0 -->|"knows"| n1',
+        '  n2 -.->|"1"| n0',
+        '  n2 -.->|"2"| n3',
+        '  n4 -->|"@matches"| n5',
+        '  classDef trigger stroke:#d9480f,color:#d9480f',
+        '  class n4,n5 trigger',
+        '  linkStyle 3 stroke:#d9480f,color:#d9480f',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('draws trigger clauses as edges whatever their template', () => {
+    expect(
+      exportGraph(
+        parseConcepts('grandparent @adds $x grandparent-of $z'),
+        'mermaid',
+      ),
+    ).toBe(
+      [
+        'flowchart LR',
+        '  n0("grandparent")',
+        '  n1["$x grandparent-of $z"]',
+        '  n2("$x")',
+        '  n3("grandparent-of")',
+        '  n4("$z")',
+        '  n1 -.->|"1"| n2',
+        '  n1 -.->|"2"| n3',
+        '  n1 -.->|"3"| n4',
+        '  n0 -->|"@adds"| n1',
+        '  classDef trigger stroke:#d9480f,color:#d9480f',
+        '  class n0,n1,n2,n3,n4 trigger',
+        '  linkStyle 0,1,2,3 stroke:#d9480f,color:#d9480f',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('writes doc comments as DOT tooltips', () => {
+    expect(
+      exportGraph(
+        parseConcepts('/** Friends */ john knows mary\n/** A drink */ tea'),
+        'dot',
+      ),
+    ).toBe(
+      [
+        'digraph {',
+        '  n0 [label="john"];',
+        '  n1 [label="mary"];',
+        '  n2 [label="tea", tooltip="A drink"];',
+        '  n0 -> n1 [label="knows", tooltip="Friends"];',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('only draws the concepts matching a pattern', () => {
+    expect(
+      exportGraph(new ConceptStore(concepts), 'mermaid', {
+        pattern: parseConcepts('$x knows $y')[0],
+      }),
+    ).toBe(
+      [
+        'flowchart LR',
+        '  n0("john")',
+        '  n1("mary")',
+        '  n0 -->|"knows"| n1',
+        '',
+      ].join('\n'),
+    );
+  });
+});
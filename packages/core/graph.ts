@@ -0,0 +1,257 @@
+import { Concept } from './concept';
+import { findMatches } from './match';
+import { ConceptStore } from './store';
+
+export type GraphFormat = 'dot' | 'mermaid';
+
+export type GraphOptions = {
+  /** Only draws the concepts matching this pattern */
+  pattern?: Concept;
+};
+
+type GraphNode = {
+  id: string;
+  label: string;
+  compound: boolean;
+  /** Whether only triggers use the node */
+  trigger: boolean;
+  doc?: string;
+};
+
+type GraphEdge = {
+  from: GraphNode;
+  to: GraphNode;
+  label: string;
+  /** Whether the edge links a reified compound to one of its parts */
+  part: boolean;
+  trigger: boolean;
+  doc?: string;
+};
+
+/**
+ * Draws concepts as a Graphviz DOT or Mermaid graph.
+ *
+ * Atoms are nodes, and three-part concepts such as `john knows mary` are edges
+ * labelled with their middle part. Other concepts, and compounds nested in
+ * them such as `[john knows mary]` in `[john knows mary] since 2000`, are
+ * reified as boxes linked to each of their parts by dashed edges, numbered
+ * unless the compound is a sorted set. Trigger clauses are edges from the
+ * trigger name to the template, however many parts it has, labelled with the
+ * directive, and they and the nodes only triggers use are drawn in another
+ * colour. The doc comments of concepts are the tooltips of their nodes and
+ * edges in DOT, and are left out of Mermaid graphs.
+ */
+export const exportGraph = (
+  concepts: ConceptStore | Iterable<Concept>,
+  format: GraphFormat,
+  options: GraphOptions = {},
+): string => {
+  const graph = new Graph(selectConcepts(concepts, options.pattern));
+
+  switch (format) {
+    case 'dot':
+      return writeDot(graph);
+    case 'mermaid':
+      return writeMermaid(graph);
+  }
+};
+
+const selectConcepts = (
+  concepts: ConceptStore | Iterable<Concept>,
+  pattern?: Concept,
+): Iterable<Concept> => {
+  if (!pattern) {
+    return concepts;
+  }
+
+  const store =
+    concepts instanceof ConceptStore ? concepts : new ConceptStore(concepts);
+
+  return findMatches(store, pattern).map(match => match.concept);
+};
+
+class Graph {
+  nodes = new Map<string, GraphNode>();
+  edges: GraphEdge[] = [];
+
+  constructor(concepts: Iterable<Concept>) {
+    for (const concept of concepts) {
+      this.addConcept(concept);
+    }
+  }
+
+  protected addConcept(concept: Concept) {
+    const trigger = concept.is('TRIGGER') || concept.is('TRIGGER_CLAUSE');
+
+    if (concept.is('TRIGGER_CLAUSE')) {
+      const [name, directive, ...template] = concept.parts;
+
+      this.edges.push({
+        from: this.addNode(name, trigger),
+        to: this.addNode(Concept.fromParts(template), trigger),
+        label: directive.key,
+        part: false,
+        trigger,
+        doc: concept.doc,
+      });
+    } else if (isEdge(concept)) {
+      const [from, label, to] = concept.parts;
+
+      this.edges.push({
+        from: this.addNode(from, trigger),
+        to: this.addNode(to, trigger),
+        label: label.key,
+        part: false,
+        trigger,
+        doc: concept.doc,
+      });
+    } else {
+      const node = this.addNode(concept, trigger);
+      node.doc ??= concept.doc;
+    }
+  }
+
+  /**
+   * Adds the node of a concept, along with the nodes of its parts if it's a
+   * compound, unless it was added already.
+   */
+  protected addNode(concept: Concept, trigger: boolean): GraphNode {
+    const existing = this.nodes.get(concept.key);
+
+    if (existing) {
+      existing.trigger &&= trigger;
+      return existing;
+    }
+
+    const node: GraphNode = {
+      id: `n${this.nodes.size}`,
+      label: concept.key,
+      compound: concept.parts.length > 0,
+      trigger,
+    };
+
+    this.nodes.set(concept.key, node);
+
+    concept.parts.forEach((part, index) => {
+      this.edges.push({
+        from: node,
+        to: this.addNode(part, trigger),
+        label: concept.is('SORTED_SET') ? '' : String(index + 1),
+        part: true,
+        trigger,
+      });
+    });
+
+    return node;
+  }
+}
+
+/**
+ * Whether a concept is drawn as an edge, which needs its middle part to be an
+ * atom that labels it.
+ */
+const isEdge = (concept: Concept) =>
+  concept.size === 3 &&
+  !concept.is('SORTED_SET') &&
+  !concept.is('COMMAND') &&
+  !concept.parts[1].parts.length;
+
+const TRIGGER_COLOR = '#d9480f';
+
+const writeDot = ({ nodes, edges }: Graph): string => {
+  const lines = ['digraph {'];
+
+  nodes.forEach(({ id, label, compound, trigger, doc }) => {
+    const attributes = [`label=${quoteDot(label)}`];
+
+    if (compound) {
+      attributes.push('shape=box');
+    }
+
+    if (doc !== undefined) {
+      attributes.push(`tooltip=${quoteDot(doc)}`);
+    }
+
+    if (trigger) {
+      attributes.push(
+        `color="${TRIGGER_COLOR}"`,
+        `fontcolor="${TRIGGER_COLOR}"`,
+      );
+    }
+
+    lines.push(`  ${id} [${attributes.join(', ')}];`);
+  });
+
+  edges.forEach(({ from, to, label, part, trigger, doc }) => {
+    const attributes = label ? [`label=${quoteDot(label)}`] : [];
+
+    if (part) {
+      attributes.push('style=dashed');
+    }
+
+    if (doc !== undefined) {
+      attributes.push(`tooltip=${quoteDot(doc)}`);
+    }
+
+    if (trigger) {
+      attributes.push(
+        `color="${TRIGGER_COLOR}"`,
+        `fontcolor="${TRIGGER_COLOR}"`,
+      );
+    }
+
+    const list = attributes.length ? ` [${attributes.join(', ')}]` : '';
+
+    lines.push(`  ${from.id} -> ${to.id}${list};`);
+  });
+
+  lines.push('}');
+
+  return `${lines.join('\n')}\n`;
+};
+
+const writeMermaid = ({ nodes, edges }: Graph): string => {
+  const lines = ['flowchart LR'];
+
+  nodes.forEach(({ id, label, compound }) => {
+    const text = quoteMermaid(label);
+    lines.push(`  ${id}${compound ? `[${text}]` : `(${text})`}`);
+  });
+
+  edges.forEach(({ from, to, label, part }) => {
+    const arrow = part ? '-.->' : '-->';
+    const text = label ? `|${quoteMermaid(label)}|` : '';
+
+    lines.push(`  ${from.id} ${arrow}${text} ${to.id}`);
+  });
+
+  const triggerNodes = Array.from(nodes.values()).filter(node => node.trigger);
+  const triggerEdges = edges.flatMap((edge, index) =>
+    edge.trigger ? [index] : [],
+  );
+
+  if (triggerNodes.length) {
+    lines.push(
+      `  classDef trigger stroke:${TRIGGER_COLOR},color:${TRIGGER_COLOR}`,
+      `  class ${triggerNodes.map(node => node.id).join(',')} trigger`,
+    );
+  }
+
+  if (triggerEdges.length) {
+    lines.push(
+      `  linkStyle ${triggerEdges.join(',')} stroke:${TRIGGER_COLOR},color:${TRIGGER_COLOR}`,
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+const quoteDot = (text: string) =>
+  `"${text.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+
+/**
+ * Quotes a label, writing its quotes as entity codes and its line breaks as
+ * `<br>`, which Mermaid can't hold otherwise.
+ */
+const quoteMermaid = (text: string) =>
+  `"${text.replace(/["\n]/g, char => (char === '"' ? '#quot;' : '<br>'))}"`;
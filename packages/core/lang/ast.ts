@@ -1,3 +1,5 @@
+import { readDocComment } from './comments';
+import { UnclosedCommentError, UnexpectedTokenError } from './errors';
 import { Token } from './tokens';
 
 export abstract class AstNode<
@@ -54,6 +56,9 @@ export abstract class AstNode<
         return this.consumePrevSeqRef(token);
       case 'SORTED_SET_INIT':
         return this.consumeSortedSetInit(token);
+      case 'COMMENT':
+      case 'DOC_COMMENT':
+        return this.consumeComment(token);
     }
   }
 
@@ -105,6 +110,10 @@ export abstract class AstNode<
     return this;
   }
 
+  consumeComment(token: Token): AstNode {
+    return this;
+  }
+
   append(child: TChild) {
     this.remove(child);
     this.children.push(child);
@@ -151,7 +160,46 @@ export class BranchingNode extends AstNode<BranchNode, BranchNode> {}
 
 export class AtomNode extends AstNode<never, BranchNode> {}
 
-export class NestedBranchingNode extends BranchingNode {}
+export class HeadRefNode extends AstNode<never, BranchNode> {}
+
+export class PrevSeqRefNode extends AstNode<never, BranchNode> {
+  /**
+   * The slice of the preceding sequence that's referenced, where `...` refers
+   * to all of it and `x..y`, `..y` and `x..` to the parts from index `x` up to
+   * but not including index `y`.
+   */
+  get range(): { start: number; end?: number } {
+    if (this.token!.value === '...') {
+      return { start: 0 };
+    }
+
+    const [start, end] = this.token!.value.split('..');
+
+    return {
+      start: Number(start || 0),
+      end: end ? Number(end) : undefined,
+    };
+  }
+}
+
+/**
+ * A comment, kept in the AST so that formatting doesn't lose it, though it
+ * doesn't expand into anything.
+ */
+export class CommentNode extends AstNode<never, BranchNode> {
+  get isDoc(): boolean {
+    return this.token!.type === 'DOC_COMMENT';
+  }
+
+  /** Whether it's a `// ...` comment, which runs to the end of its line */
+  get isLine(): boolean {
+    return this.token!.value.startsWith('//');
+  }
+}
+
+export class NestedBranchingNode extends BranchingNode {
+  sorted = false;
+}
 
 export class InlineBranchingNode extends BranchingNode {}
 
@@ -164,7 +212,7 @@ export type EventListenerCallback<
 } | null;
 
 export class BranchNode extends AstNode<
-  AtomNode | BranchingNode,
+  AtomNode | HeadRefNode | PrevSeqRefNode | BranchingNode | CommentNode,
   BranchingNode | RootNode
 > {
   addEventListener(type: 'close', callback: EventListenerCallback) {
@@ -180,14 +228,74 @@ export class BranchNode extends AstNode<
     );
   }
 
+  consumeHeadRef(token: Token) {
+    return this.append(
+      new HeadRefNode({
+        token,
+        parent: this,
+      }),
+    );
+  }
+
+  consumePrevSeqRef(token: Token) {
+    return this.append(
+      new PrevSeqRefNode({
+        token,
+        parent: this,
+      }),
+    );
+  }
+
+  consumeComment(token: Token) {
+    const { value } = token;
+
+    if (value.startsWith('/*') && (value.length < 4 || !value.endsWith('*/'))) {
+      throw new UnclosedCommentError({ token });
+    }
+
+    return this.append(
+      new CommentNode({
+        token,
+        parent: this,
+      }),
+    );
+  }
+
+  consumeSortedSetInit(token: Token) {
+    const parent = this.parent;
+
+    if (
+      parent instanceof NestedBranchingNode === false ||
+      parent.sorted ||
+      parent.children.length > 1 ||
+      this.children.length
+    ) {
+      throw new UnexpectedTokenError({ token });
+    }
+
+    parent.sorted = true;
+
+    return this;
+  }
+
   consumeBranchSeparator(token: Token) {
-    if (!this.children.length) {
-      this.parent?.remove(this);
+    // Comments on the lines right above a branch belong to it
+    if (
+      this.children.length &&
+      !this.hasContent() &&
+      token.value.split('\n').length <= 2
+    ) {
+      return this;
     }
 
+    const parent = this.parent;
     const nextBranch = new BranchNode({ token });
 
-    this.parent?.append(nextBranch);
+    if (!this.children.length) {
+      parent?.remove(this);
+    }
+
+    parent?.append(nextBranch);
 
     return nextBranch;
   }
@@ -216,11 +324,55 @@ export class BranchNode extends AstNode<
     return this.consumeBranchClosingToken(ParentheticalBranchingNode, token);
   }
 
+  /**
+   * Whether the branch holds anything other than comments.
+   */
+  hasContent(): boolean {
+    return this.children.some(child => child instanceof CommentNode === false);
+  }
+
+  /**
+   * The text of the last doc comment leading the branch, which documents the
+   * concepts it expands to. Doc comments anywhere else document nothing.
+   */
+  get doc(): string | null {
+    const docComment = this.getLeadingComments().findLast(node => node.isDoc);
+
+    return docComment ? readDocComment(docComment.token!.value) : null;
+  }
+
+  /**
+   * The comments before anything else in the branch, which are about it.
+   */
+  getLeadingComments(): CommentNode[] {
+    const end = this.children.findIndex(
+      child => child instanceof CommentNode === false,
+    );
+
+    return this.children.slice(
+      0,
+      end === -1 ? undefined : end,
+    ) as CommentNode[];
+  }
+
+  /**
+   * Whether the branch refers to the sequence preceding it, either directly or
+   * from within a nested compound.
+   */
+  referencesPrevSeq(): boolean {
+    return this.children.some(
+      child =>
+        child instanceof PrevSeqRefNode ||
+        (child instanceof NestedBranchingNode &&
+          child.children.some(branch => branch.referencesPrevSeq())),
+    );
+  }
+
   protected consumeBranchOpeningToken(
     NodeType: typeof BranchingNode,
     token: Token,
   ) {
-    return new BranchNode().append(new NodeType({ token }).appendTo(this));
+    return new BranchNode().appendTo(new NodeType({ token }).appendTo(this));
   }
 
   protected consumeBranchClosingToken(
@@ -228,23 +380,19 @@ export class BranchNode extends AstNode<
     token: Token,
   ) {
     if (this.parent instanceof NodeType === false) {
-      throw new UnexpectedTokenError(token);
+      throw new UnexpectedTokenError({ token });
     }
 
     const parentBranch = this.parent.parent;
 
     if (!parentBranch) {
-      throw new UnexpectedTokenError(token);
+      throw new UnexpectedTokenError({ token });
     }
 
-    return parentBranch;
-  }
-}
+    if (!this.children.length) {
+      this.parent.remove(this);
+    }
 
-export class UnexpectedTokenError extends Error {
-  constructor(token: Token) {
-    super(
-      `Unexpected ${token.type} at ${token.loc.start.line}:${token.loc.start.column}`,
-    );
+    return parentBranch;
   }
 }
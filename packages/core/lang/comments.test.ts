@@ -0,0 +1,27 @@
+import { describe, test, expect } from 'bun:test';
+import { readDocComment, writeDocComment } from './comments';
+
+describe('readDocComment', () => {
+  test('reads the text of doc comments', () => {
+    expect(readDocComment('/** Friends */')).toBe('Friends');
+    expect(
+      readDocComment('/**\n   * From school,\n   *\n   * in 1999\n   */'),
+    ).toBe('From school,\n\nin 1999');
+  });
+});
+
+describe('writeDocComment', () => {
+  test('writes one line on one line', () => {
+    expect(writeDocComment('Friends')).toBe('/** Friends */');
+  });
+
+  test('writes several lines with a * each', () => {
+    expect(writeDocComment('From school,\n\nin 1999', '  ')).toBe(
+      '/**\n   * From school,\n   *\n   * in 1999\n   */',
+    );
+  });
+
+  test('escapes what would end the comment', () => {
+    expect(writeDocComment('a */ b')).toBe('/** a *\\/ b */');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Reads the text of a `/** ... *\/` doc comment, dropping the `*` that lines
+ * may start with and the lines left blank around the text.
+ */
+export const readDocComment = (value: string): string => {
+  const body = value.replace(/^\/\*\*/, '').replace(/\*\/$/, '');
+  const lines = body
+    .split('\n')
+    .map((line, index) =>
+      (index ? line.replace(/^[\t ]*\*?/, '') : line).trim(),
+    );
+
+  while (lines.length && !lines[0]) {
+    lines.shift();
+  }
+
+  while (lines.length && !lines.at(-1)) {
+    lines.pop();
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Writes text as a doc comment, on one line if it fits on one and with a `*`
+ * starting each line otherwise. A `*\/` in the text would end the comment
+ * early, so it's written `*\\/`.
+ */
+export const writeDocComment = (text: string, padding = ''): string => {
+  const lines = text.replace(/\*\//g, '*\\/').split('\n');
+
+  if (lines.length === 1) {
+    return `/** ${lines[0]} */`;
+  }
+
+  const body = lines
+    .map(line => `${padding} *${line ? ` ${line}` : ''}\n`)
+    .join('');
+
+  return `/**\n${body}${padding} */`;
+};
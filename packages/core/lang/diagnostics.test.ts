@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  formatCodeFrame,
+  formatDiagnostic,
+  getTokenRange,
+} from './diagnostics';
+import { tokenize } from './tokens';
+import parser from './parse';
+
+describe('getTokenRange', () => {
+  test('leaves out the whitespace around brackets', () => {
+    const token = tokenize('a {b\n  }').at(-1)!;
+
+    expect(getTokenRange(token)).toEqual({
+      start: { offset: 7, line: 2, column: 3 },
+      end: { offset: 8, line: 2, column: 4 },
+    });
+  });
+});
+
+describe('formatCodeFrame', () => {
+  test('underlines the range with the preceding line for context', () => {
+    const source = 'a b\nc d ([1..5] e)\nf';
+    const { diagnostics } = parser.analyze(source);
+
+    expect(formatCodeFrame(source, diagnostics[0].loc)).toBe(
+      '1 | a b\n2 | c d ([1..5] e)\n  |       ^^^^',
+    );
+  });
+
+  test('keeps tabs so that the marker lines up', () => {
+    const source = '\ta b]';
+    const { diagnostics } = parser.analyze(source);
+
+    expect(formatCodeFrame(source, diagnostics[0].loc)).toBe(
+      '1 | \ta b]\n  | \t   ^',
+    );
+  });
+});
+
+describe('formatDiagnostic', () => {
+  test('prints the code, message and location', () => {
+    const source = 'foo {bar';
+    const { diagnostics } = parser.analyze(source);
+
+    expect(formatDiagnostic(source, diagnostics[0], 'foo.co')).toBe(
+      'error[UNCLOSED_BRANCH]: Unclosed L_CURLY\n' +
+        '  --> foo.co:1:5\n' +
+        '1 | foo {bar\n' +
+        '  |     ^',
+    );
+  });
+});
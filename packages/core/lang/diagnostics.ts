@@ -0,0 +1,115 @@
+import { CursorRange, Token, advanceCursor } from './tokens';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'UNEXPECTED_TOKEN'
+  | 'UNCLOSED_BRANCH'
+  | 'UNCLOSED_COMMENT'
+  | 'UNRESOLVED_REFERENCE'
+  | 'RANGE_OUT_OF_BOUNDS'
+  | 'IMPORT_NOT_FOUND'
+  | 'IMPORT_NOT_FILE'
+  | 'IMPORT_CYCLE';
+
+export type Diagnostic = {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  loc: CursorRange;
+  /** The file that the diagnostic originates from, if it's from a file */
+  path?: string;
+};
+
+export type CodeFrameOptions = {
+  /** Number of lines shown before the ones that are pointed at */
+  linesBefore?: number;
+};
+
+/**
+ * The range of a token without the whitespace and separators that brackets
+ * and separators swallow, so that `foo\n}` points at the `}`.
+ */
+export const getTokenRange = (token: Token): CursorRange => {
+  const start = token.value.search(/[^\s,]/);
+
+  if (start === -1) {
+    return token.loc;
+  }
+
+  const end = token.value.search(/[^\s,][\s,]*$/) + 1;
+  const startCursor = advanceCursor(
+    token.loc.start,
+    token.value.slice(0, start),
+  );
+
+  return {
+    start: startCursor,
+    end: advanceCursor(startCursor, token.value.slice(start, end)),
+  };
+};
+
+/**
+ * Prints the lines of source leading up to a range, with the range underlined
+ * on its first line:
+ *
+ * ```
+ * 1 | foo bar]
+ *   |        ^
+ * ```
+ */
+export const formatCodeFrame = (
+  source: string,
+  loc: CursorRange,
+  options: CodeFrameOptions = {},
+): string => {
+  const { start, end } = loc;
+  const lines = source.split('\n');
+  const firstLine = Math.max(1, start.line - (options.linesBefore ?? 1));
+  const gutterWidth = String(start.line).length;
+  const line = lines[start.line - 1] ?? '';
+
+  // Keep tabs so that the marker lines up with the text above it
+  const indent = line.slice(0, start.column - 1).replace(/[^\t]/g, ' ');
+  const width =
+    end.line === start.line
+      ? end.column - start.column
+      : line.length - start.column + 1;
+
+  const frame = lines
+    .slice(firstLine - 1, start.line)
+    .map((text, index) =>
+      `${String(firstLine + index).padStart(gutterWidth)} | ${text}`.trimEnd(),
+    );
+
+  frame.push(
+    `${' '.repeat(gutterWidth)} | ${indent}${'^'.repeat(Math.max(1, width))}`,
+  );
+
+  return frame.join('\n');
+};
+
+/**
+ * Prints a diagnostic with its code, location and a code frame:
+ *
+ * ```
+ * error[UNEXPECTED_TOKEN]: Unexpected R_SQUARE
+ *   --> example.co:1:8
+ * 1 | foo bar]
+ *   |        ^
+ * ```
+ */
+export const formatDiagnostic = (
+  source: string,
+  diagnostic: Diagnostic,
+  path = diagnostic.path,
+): string => {
+  const { line, column } = diagnostic.loc.start;
+  const location = [path, line, column].filter(Boolean).join(':');
+
+  return [
+    `${diagnostic.severity}[${diagnostic.code}]: ${diagnostic.message}`,
+    `  --> ${location}`,
+    formatCodeFrame(source, diagnostic.loc),
+  ].join('\n');
+};
@@ -1,7 +1,77 @@
 import { CustomError } from '../errors';
+import { Diagnostic, DiagnosticCode, getTokenRange } from './diagnostics';
 import { Token } from './tokens';
 
-export class UnexpectedTokenError extends CustomError.define<Token>(
-  token =>
-    `Unexpected token: ${token.type} at ${token.loc.start.line}:${token.loc.start.column}`,
+/**
+ * An error in source, which carries the diagnostic that's reported instead of
+ * throwing when the parser recovers from errors.
+ */
+export class SourceError extends CustomError {
+  diagnostic: Diagnostic;
+
+  constructor(diagnostic: Diagnostic) {
+    const { line, column } = diagnostic.loc.start;
+
+    super(`${diagnostic.message} at ${line}:${column}`);
+    this.diagnostic = diagnostic;
+  }
+
+  static defineWithCode<TContext extends { token: Token }>(
+    code: DiagnosticCode,
+    createMessage: (context: TContext) => string,
+  ) {
+    return class extends SourceError {
+      constructor(context: TContext) {
+        super({
+          severity: 'error',
+          code,
+          message: createMessage(context),
+          loc: getTokenRange(context.token),
+        });
+      }
+    };
+  }
+}
+
+export class UnexpectedTokenError extends SourceError.defineWithCode<{
+  token: Token;
+}>('UNEXPECTED_TOKEN', ({ token }) => `Unexpected ${token.type}`) {}
+
+export class UnclosedBranchError extends SourceError.defineWithCode<{
+  token: Token;
+}>('UNCLOSED_BRANCH', ({ token }) => `Unclosed ${token.type}`) {}
+
+export class UnclosedCommentError extends SourceError.defineWithCode<{
+  token: Token;
+}>('UNCLOSED_COMMENT', ({ token }) => `Unclosed ${token.type}`) {}
+
+export class UnresolvedReferenceError extends SourceError.defineWithCode<{
+  token: Token;
+}>(
+  'UNRESOLVED_REFERENCE',
+  ({ token }) => `Nothing for ${token.type} to reference`,
+) {}
+
+export class RangeOutOfBoundsError extends SourceError.defineWithCode<{
+  token: Token;
+  length: number;
+}>(
+  'RANGE_OUT_OF_BOUNDS',
+  ({ token, length }) =>
+    `Range ${token.value} is out of bounds for a sequence of ${length} parts`,
 ) {}
+
+export class ImportNotFoundError extends SourceError.defineWithCode<{
+  token: Token;
+  path: string;
+}>('IMPORT_NOT_FOUND', ({ path }) => `Cannot find ${path} to import`) {}
+
+export class ImportNotFileError extends SourceError.defineWithCode<{
+  token: Token;
+  path: string;
+}>('IMPORT_NOT_FILE', ({ path }) => `Cannot import ${path}, not a file`) {}
+
+export class ImportCycleError extends SourceError.defineWithCode<{
+  token: Token;
+  chain: string[];
+}>('IMPORT_CYCLE', ({ chain }) => `Import cycle: ${chain.join(' -> ')}`) {}
@@ -0,0 +1,95 @@
+import { describe, test, expect } from 'bun:test';
+import { ConceptFormatter, formatSource } from './format';
+import { parseConcepts } from './parse';
+
+describe('formatSource', () => {
+  test('normalises spacing and separators', () => {
+    expect(formatSource('  foo   bar ,baz\n\n\n\nqux {  a,b }')).toBe(
+      'foo bar\nbaz\n\nqux {a, b}\n',
+    );
+  });
+
+  test('normalises brackets', () => {
+    expect(formatSource('a [ b c ] ( d ) [:e f]')).toBe(
+      'a [b c] (d) [: e f]\n',
+    );
+  });
+
+  test('keeps blocks that the author broke into lines', () => {
+    const source = `
+      eric {
+          knows {typescript,
+            javascript}
+        named <<Eric Weber>>
+      }
+    `;
+
+    expect(formatSource(source)).toBe(
+      'eric {\n  knows {typescript, javascript}\n  named <<Eric Weber>>\n}\n',
+    );
+  });
+
+  test('breaks branchings that do not fit', () => {
+    const formatter = new ConceptFormatter({ width: 20 });
+
+    expect(formatter.format('john knows {mary, max, anne} (person)')).toBe(
+      'john knows {\n  mary\n  max\n  anne\n} (person)\n',
+    );
+  });
+
+  test('keeps literals verbatim', () => {
+    const source = 'eric {\n  described-as <<a person\n\n    who codes>>\n}\n';
+
+    expect(formatSource(source)).toBe(source);
+  });
+
+  test('keeps comments, giving those leading a branch lines of their own', () => {
+    const source = `
+      // people
+
+      /** Friends */ john knows {
+          /** From
+             * school */
+        mary, max // a friend
+      } /* so far */
+      tea {is hot, is /* mostly */ nice}
+    `;
+
+    expect(formatSource(source)).toBe(
+      [
+        '// people',
+        '',
+        '/** Friends */',
+        'john knows {',
+        '  /** From',
+        '   * school */',
+        '  mary',
+        '  max // a friend',
+        '} /* so far */',
+        'tea {is hot, is /* mostly */ nice}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('preserves concepts and is idempotent', () => {
+    const source = `
+      eric {
+        knows {
+          javascript, typescript
+          [... excel (spreadsheet-app)] since 1999
+        } (programming-language)
+        [a b] c {  (1) d, e}
+        friends-with & , // and so on
+        /** Others */
+        knows (/* nobody */)
+      }
+    `;
+    const formatted = formatSource(source);
+
+    expect(parseConcepts(formatted).map(c => c.key)).toEqual(
+      parseConcepts(source).map(c => c.key),
+    );
+    expect(formatSource(formatted)).toBe(formatted);
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  AstNode,
+  BranchNode,
+  BranchingNode,
+  CommentNode,
+  InlineBranchingNode,
+  NestedBranchingNode,
+  ParentheticalBranchingNode,
+} from './ast';
+import { parseAst } from './parse';
+
+export type FormatOptions = {
+  indent?: string;
+  width?: number;
+};
+
+/**
+ * Formats source in a canonical layout while keeping the author's grouping:
+ * branchings are kept on one line, as in `{a, b}`, when they fit within the
+ * width, and broken into one branch per line otherwise.
+ */
+export class ConceptFormatter {
+  indent: string;
+  width: number;
+
+  constructor(options: FormatOptions = {}) {
+    this.indent = options.indent ?? '  ';
+    this.width = options.width ?? 80;
+  }
+
+  format(source: string): string {
+    const root = parseAst(source);
+
+    return this.formatBranches(root.children, 0)
+      .map(line => `${line}\n`)
+      .join('');
+  }
+
+  /**
+   * Formats each non-empty branch, preceded by a blank line when the author
+   * separated it by one or more blank lines, and by the comments leading it
+   * on lines of their own.
+   */
+  protected formatBranches(branches: BranchNode[], depth: number): string[] {
+    return branches
+      .filter(branch => branch.children.length)
+      .flatMap((branch, index) => {
+        const comments = branch
+          .getLeadingComments()
+          .map(node => this.formatComment(node, depth));
+        const formatted = branch.hasContent()
+          ? [this.formatBranch(branch, depth)]
+          : [];
+        const newlines = branch.token?.value.split('\n').length ?? 0;
+
+        return [
+          ...(index > 0 && newlines > 2 ? [''] : []),
+          ...comments,
+          ...formatted,
+        ];
+      });
+  }
+
+  /**
+   * Formats a branch on one line if it fits, and otherwise breaks its
+   * branchings of several branches into blocks (or all of them if there are
+   * none of those).
+   */
+  protected formatBranch(branch: BranchNode, depth: number): string {
+    const children = branch.children.slice(branch.getLeadingComments().length);
+    const inline = children
+      .map(child => this.formatNode(child, depth, false))
+      .join(' ');
+
+    if (!inline.includes('\n') && this.fits(inline, depth)) {
+      return inline;
+    }
+
+    const branchings = children.filter(
+      (child): child is BranchingNode => child instanceof BranchingNode,
+    );
+    const breakable = branchings.some(node => node.children.length > 1)
+      ? branchings.filter(node => node.children.length > 1)
+      : branchings;
+
+    return children
+      .map(child => this.formatNode(child, depth, breakable.includes(child)))
+      .join(' ');
+  }
+
+  protected formatNode(node: AstNode, depth: number, broken: boolean): string {
+    if (node instanceof BranchingNode) {
+      return this.formatBranching(node, depth, broken);
+    }
+
+    if (node instanceof CommentNode) {
+      return this.formatComment(node, depth);
+    }
+
+    // Atoms, including <<...>> literals, and references are kept verbatim
+    return node.token!.value;
+  }
+
+  /**
+   * Keeps a comment as it is, apart from the lines of a block comment that
+   * start with `*`, which are lined up under its first line.
+   */
+  protected formatComment(node: CommentNode, depth: number): string {
+    const padding = this.indent.repeat(depth);
+
+    return node
+      .token!.value.split('\n')
+      .map((line, index) =>
+        index && /^\s*\*/.test(line) ? `${padding} ${line.trim()}` : line,
+      )
+      .join('\n');
+  }
+
+  /**
+   * Formats a branching as `{a, b}`, or as a block of one branch per line when
+   * it must be broken, the author started a new line after opening it, or a
+   * comment needs a line of its own.
+   */
+  protected formatBranching(
+    node: BranchingNode,
+    depth: number,
+    broken: boolean,
+  ): string {
+    const [open, close] = getBrackets(node);
+    const branches = node.children.filter(branch => branch.children.length);
+
+    if (
+      !broken &&
+      !node.token!.value.includes('\n') &&
+      !branches.some(hasLineOfItsOwn)
+    ) {
+      return `${open}${branches
+        .map(branch => this.formatBranch(branch, depth))
+        .join(', ')}${close}`;
+    }
+
+    const padding = this.indent.repeat(depth);
+    const lines = this.formatBranches(branches, depth + 1).map(line =>
+      line ? `${padding}${this.indent}${line}\n` : '\n',
+    );
+
+    return `${open}\n${lines.join('')}${padding}${close}`;
+  }
+
+  protected fits(line: string, depth: number): boolean {
+    return this.indent.length * depth + line.length <= this.width;
+  }
+}
+
+/**
+ * Whether a branch can't be followed by another on its line, since comments
+ * lead it or a line comment ends it.
+ */
+const hasLineOfItsOwn = (branch: BranchNode) =>
+  branch.getLeadingComments().length > 0 ||
+  branch.children.some(child => child instanceof CommentNode && child.isLine);
+
+const getBrackets = (node: BranchingNode): [string, string] => {
+  if (node instanceof InlineBranchingNode) {
+    return ['{', '}'];
+  }
+
+  if (node instanceof ParentheticalBranchingNode) {
+    return ['(', ')'];
+  }
+
+  if (node instanceof NestedBranchingNode && node.sorted) {
+    return ['[: ', ']'];
+  }
+
+  return ['[', ']'];
+};
+
+const formatter = new ConceptFormatter();
+
+export const formatSource = (source: string): string =>
+  formatter.format(source);
+
+export default formatter;
@@ -1,6 +1,7 @@
 import { describe, test, expect } from 'bun:test';
-import { parseConcepts } from './parse';
+import { ConceptParser, parseConcepts } from './parse';
 import { Concept } from '../concept';
+import { ConceptStore } from '../store';
 
 describe('parseConcepts', () => {
   test('parses atoms', () => {
@@ -74,6 +75,245 @@ describe('parseConcepts', () => {
 
     const concepts = parseConcepts(source);
 
-    console.log(concepts.map(c => c.serialize()));
+    expect(concepts.map(c => c.key)).toEqual([
+      'javascript programming-language',
+      'typescript programming-language',
+      'eric hello world',
+      'eric foo bar biz baz',
+      'c 1',
+      'eric knows javascript',
+      'eric knows typescript',
+      'eric',
+      'eric [a b] c d',
+      'eric [a b] c e',
+    ]);
+  });
+
+  test('resolves head references', () => {
+    const concepts = parseConcepts('john { knows mary (knows &) }');
+
+    expect(concepts.map(c => c.key)).toEqual([
+      'mary knows john',
+      'john knows mary',
+    ]);
+  });
+
+  test('resolves previous sequence references', () => {
+    const concepts = parseConcepts('john knows {max, mary ([...] since 2000)}');
+
+    expect(concepts).toMatchObject([
+      Concept.fromParts([
+        Concept.fromParts([
+          new Concept('john'),
+          new Concept('knows'),
+          new Concept('mary'),
+        ]),
+        new Concept('since'),
+        new Concept('2000'),
+      ]),
+      Concept.fromParts([
+        new Concept('john'),
+        new Concept('knows'),
+        new Concept('max'),
+      ]),
+      Concept.fromParts([
+        new Concept('john'),
+        new Concept('knows'),
+        new Concept('mary'),
+      ]),
+    ]);
+  });
+
+  test('resolves ranges of the previous sequence', () => {
+    expect(parseConcepts('a b c d ([1..3] foo)').map(c => c.key)).toEqual([
+      '[b c] foo',
+      'a b c d',
+    ]);
+    expect(parseConcepts('a b c d ([..2] foo)').map(c => c.key)).toEqual([
+      '[a b] foo',
+      'a b c d',
+    ]);
+    expect(parseConcepts('a b c d ([2..] foo)').map(c => c.key)).toEqual([
+      '[c d] foo',
+      'a b c d',
+    ]);
+  });
+
+  test('throws on ranges out of bounds', () => {
+    expect(() => parseConcepts('a b c d ([2..5] foo)')).toThrow(
+      'Range 2..5 is out of bounds for a sequence of 4 parts at 1:11',
+    );
+    expect(() => parseConcepts('a b c d ([3..1] foo)')).toThrow(
+      'Range 3..1 is out of bounds for a sequence of 4 parts at 1:11',
+    );
+    expect(() => parseConcepts('a b c d ([4..] foo)')).toThrow(
+      'Range 4.. is out of bounds for a sequence of 4 parts at 1:11',
+    );
+  });
+
+  test('parses the concepts of each top-level branch', () => {
+    const branches = Array.from(
+      new ConceptParser().parseBranches('foo {bar, baz}\nqux'),
+    );
+
+    expect(branches.map(concepts => concepts.map(c => c.key))).toEqual([
+      ['foo bar', 'foo baz'],
+      ['qux'],
+    ]);
+  });
+
+  test('parses sorted sets', () => {
+    const [concept] = parseConcepts('siblings [: mary john]');
+
+    expect(concept.key).toBe('siblings [:john mary]');
+    expect(concept.parts[1].is('SORTED_SET')).toBe(true);
+    expect(parseConcepts('siblings [: john mary]')[0].key).toBe(concept.key);
+    expect(() => parseConcepts('siblings [mary : john]')).toThrow(
+      'Unexpected SORTED_SET_INIT at 1:16',
+    );
+  });
+
+  test('keys strings the same however they are escaped', () => {
+    const [escaped, plain] = parseConcepts('<<a\\>b>> x\n<<a>b>>');
+    const store = new ConceptStore([plain]);
+
+    expect(escaped.parts[0].key).toBe('<<a>b>>');
+    expect(store.get(escaped.parts[0].key)).toBe(plain);
+  });
+
+  test('throws on references with nothing to reference', () => {
+    expect(() => parseConcepts('& knows john')).toThrow(
+      'Nothing for HEAD_REF to reference at 1:1',
+    );
+    expect(() => parseConcepts('foo [...] bar')).toThrow(
+      'Nothing for PREV_SEQ_REF to reference at 1:6',
+    );
+  });
+
+  test('skips comments', () => {
+    expect(
+      parseConcepts(
+        '// people\njohn /* who? */ knows {\n  mary // a friend\n  /* max */\n}',
+      ).map(c => c.key),
+    ).toEqual(['john knows mary']);
+  });
+
+  test('documents concepts with the doc comment above their branch', () => {
+    const concepts = parseConcepts(`
+      /** Friends */
+      john knows {
+        /**
+         * From school
+         */
+        mary
+        max (/** Pets */ has cat)
+      }
+      /** Detached */
+
+      tea is hot
+      coffee /** Nothing */ is bitter
+    `);
+
+    expect(concepts.map(({ key, doc }) => [key, doc])).toEqual([
+      ['max has cat', 'Pets'],
+      ['john knows mary', 'From school'],
+      ['john knows max', 'Friends'],
+      ['tea is hot', undefined],
+      ['coffee is bitter', undefined],
+    ]);
+  });
+
+  test('throws on unclosed block comments', () => {
+    expect(() => parseConcepts('foo /* bar')).toThrow(
+      'Unclosed COMMENT at 1:5',
+    );
+  });
+
+  test('throws on unbalanced brackets', () => {
+    expect(() => parseConcepts('foo {bar')).toThrow('Unclosed L_CURLY at 1:5');
+    expect(() => parseConcepts('foo bar]')).toThrow('Unexpected R_SQUARE');
+    expect(() => parseConcepts('foo (bar}')).toThrow('Unexpected R_CURLY');
+    expect(() => parseConcepts('foo {\n  bar\n  ]')).toThrow(
+      'Unexpected R_SQUARE at 3:3',
+    );
+  });
+});
+
+describe('ConceptParser', () => {
+  test('yields concepts of each top-level branch', () => {
+    const parser = new ConceptParser();
+    const iterator = parser.parseEach('foo (bar), baz')[Symbol.iterator]();
+
+    expect(iterator.next().value).toMatchObject(
+      Concept.fromParts([new Concept('foo'), new Concept('bar')]),
+    );
+    expect(iterator.next().value).toMatchObject(new Concept('foo'));
+    expect(iterator.next().value).toMatchObject(new Concept('baz'));
+    expect(iterator.next().done).toBe(true);
+  });
+
+  test('reports every error when analyzing', () => {
+    const parser = new ConceptParser();
+    const { concepts, diagnostics } = parser.analyze(
+      'a b]\n& c\nd (e], x)\nf [: g : h]\ni\nj ([1..5] k)\nl {m',
+    );
+
+    expect(concepts.map(c => c.key)).toEqual(['d x', 'd', 'i', 'j']);
+    expect(
+      diagnostics.map(({ code, loc }) => [
+        code,
+        `${loc.start.line}:${loc.start.column}`,
+      ]),
+    ).toEqual([
+      ['UNEXPECTED_TOKEN', '1:4'],
+      ['UNRESOLVED_REFERENCE', '2:1'],
+      ['UNEXPECTED_TOKEN', '3:5'],
+      ['UNEXPECTED_TOKEN', '4:8'],
+      ['RANGE_OUT_OF_BOUNDS', '6:5'],
+      ['UNCLOSED_BRANCH', '7:3'],
+    ]);
+  });
+
+  test('parses async sources', async () => {
+    const parser = new ConceptParser();
+    const concepts = await parser.parseAsync('foo {bar, baz}');
+
+    expect(concepts.map(c => c.key)).toEqual(['foo bar', 'foo baz']);
+  });
+
+  test('parses streams split anywhere', async () => {
+    const parser = new ConceptParser();
+    const source = 'john {knows <<Mary Jane>>, likes [... max]}\nmax (person)';
+
+    async function* chunk(size: number) {
+      for (let i = 0; i < source.length; i += size) {
+        yield source.slice(i, i + size);
+      }
+    }
+
+    for (const size of [1, 4, 7]) {
+      const concepts = await parser.parseAsync(chunk(size));
+
+      expect(concepts.map(c => c.key)).toEqual(
+        parser.parse(source).map(c => c.key),
+      );
+    }
+  });
+
+  test('yields concepts as soon as their branch is closed', async () => {
+    const parser = new ConceptParser();
+    const keys: string[] = [];
+
+    async function* source() {
+      yield 'foo {bar, baz}, qux';
+      expect(keys).toEqual(['foo bar', 'foo baz']);
+      yield ' quux';
+    }
+
+    for await (const concept of parser.parseEachAsync(source())) {
+      keys.push(concept.key);
+    }
+
+    expect(keys).toEqual(['foo bar', 'foo baz', 'qux quux']);
   });
 });
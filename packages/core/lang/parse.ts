@@ -1,86 +1,479 @@
 import { Concept } from '../concept';
-import { Token } from './tokens';
+import { getCanonicalKey } from '../literals';
+import {
+  AstNode,
+  AtomNode,
+  BranchNode,
+  HeadRefNode,
+  InlineBranchingNode,
+  NestedBranchingNode,
+  ParentheticalBranchingNode,
+  PrevSeqRefNode,
+  RootNode,
+} from './ast';
+import { Diagnostic } from './diagnostics';
+import {
+  RangeOutOfBoundsError,
+  SourceError,
+  UnclosedBranchError,
+  UnresolvedReferenceError,
+} from './errors';
+import { Token, TokenType, generateTokens } from './tokens';
+
+export type ParseResult = {
+  concepts: Concept[];
+  diagnostics: Diagnostic[];
+  /** The token each atom of the concepts was read from */
+  tokens: WeakMap<Concept, Token>;
+};
 
 export class ConceptParser {
   parse(source: string): Concept[] {
-    return [];
+    return Array.from(this.parseEach(source));
   }
 
-  async parseAsync(source: string): Promise<Concept[]> {
-    return [];
+  async parseAsync(source: string | AsyncIterable<string>): Promise<Concept[]> {
+    return Array.fromAsync(this.parseEachAsync(source));
   }
 
   *parseEach(source: string): Iterable<Concept> {
-    return [];
+    yield* this.build(new AstBuilder(), source);
+  }
+
+  /**
+   * Parses source into the concepts of each top-level branch, for when it
+   * matters which concepts were written together.
+   */
+  *parseBranches(source: string): Iterable<Concept[]> {
+    const builder = new AstBuilder();
+
+    for (const token of generateTokens(source)) {
+      builder.consumeToken(token);
+      yield* builder.flushBranches();
+    }
+
+    yield* builder.endBranches();
+  }
+
+  /**
+   * Parses source without stopping at errors, returning the concepts of every
+   * branch that parsed along with a diagnostic for each error.
+   */
+  analyze(source: string): ParseResult {
+    const builder = new AstBuilder({ recover: true, locate: true });
+    const concepts = Array.from(this.build(builder, source));
+    const diagnostics = builder.diagnostics!.sort(
+      (a, b) => a.loc.start.offset - b.loc.start.offset,
+    );
+
+    return { concepts, diagnostics, tokens: builder.tokens! };
+  }
+
+  /**
+   * Parses a stream of chunks, yielding the concepts of each top-level branch
+   * as soon as the branch is closed, so that sources of any size can be read
+   * without holding on to more than the branch being parsed.
+   */
+  async *parseEachAsync(
+    source: string | AsyncIterable<string>,
+  ): AsyncIterable<Concept> {
+    if (typeof source === 'string') {
+      yield* this.parseEach(source);
+      return;
+    }
+
+    const builder = new AstBuilder();
+
+    for await (const token of generateTokens(source)) {
+      builder.consumeToken(token);
+      yield* builder.flush();
+    }
+
+    yield* builder.end();
   }
 
-  async *parseEachAsync(source: string): AsyncIterable<Concept> {}
+  protected *build(builder: AstBuilder, source: string): Iterable<Concept> {
+    for (const token of generateTokens(source)) {
+      builder.consumeToken(token);
+      yield* builder.flush();
+    }
+
+    yield* builder.end();
+  }
 }
 
-export class ParseContext {
-  parent: ParseContext | null = null;
-  permutations: Concept[][] = [];
+export type AstBuilderOptions = {
+  /** Report errors as diagnostics and skip the branches they occur in */
+  recover?: boolean;
+  /** Record the token each atom is read from */
+  locate?: boolean;
+};
+
+/**
+ * Feeds tokens into an AST and hands back the concepts of each top-level
+ * branch as soon as it's closed, so that finished branches can be dropped.
+ */
+export class AstBuilder {
+  root = new RootNode();
+  node: AstNode = new BranchNode().appendTo(this.root);
+  diagnostics: Diagnostic[] | null;
+  tokens: WeakMap<Concept, Token> | null;
+
+  /** Depth of the brackets skipped while recovering, if recovering */
+  protected skipDepth: number | null = null;
+
+  constructor(options: AstBuilderOptions = {}) {
+    this.diagnostics = options.recover ? [] : null;
+    this.tokens = options.locate ? new WeakMap() : null;
+  }
 
   consumeToken(token: Token) {
-    switch (token.type) {
-      case 'ATOM':
-        return this.consumeAtom(token);
-      case 'BRANCH_SEPARATOR':
-        return this.consumeBranchSeparator(token);
-      case 'PART_SEPARATOR':
-        return this.consumePartSeparator(token);
-      case 'L_PAREN':
-        return this.consumeLeftParen(token);
-      case 'R_PAREN':
-        return this.consumeRightParen(token);
-      case 'L_CURLY':
-        return this.consumeLeftCurly(token);
-      case 'R_CURLY':
-        return this.consumeRightCurly(token);
-      case 'L_SQUARE':
-        return this.consumeLeftSquare(token);
-      case 'R_SQUARE':
-        return this.consumeRightSquare(token);
-      case 'HEAD_REF':
-        return this.consumeHeadRef(token);
-      case 'PREV_SEQ_REF':
-        return this.consumePrevSeqRef(token);
-      case 'SORTED_SET_INIT':
-        return this.consumeSortedSetInit(token);
+    if (this.skipDepth !== null && this.skip(token)) {
+      return;
+    }
+
+    try {
+      this.node = this.node.consumeToken(token);
+    } catch (error) {
+      report(this.diagnostics, error);
+      this.clear();
+      this.skipDepth = 0;
+    }
+  }
+
+  *flush(): Iterable<Concept> {
+    for (const concepts of this.flushBranches()) {
+      yield* concepts;
+    }
+  }
+
+  *flushBranches(): Iterable<Concept[]> {
+    // Only the last top-level branch can still be receiving tokens
+    while (this.root.children.length > 1) {
+      const branch = this.root.children[0];
+      this.root.remove(branch);
+      yield this.createContext().expand(branch);
+    }
+  }
+
+  /**
+   * Checks that every branching has been closed. When recovering, each one
+   * that hasn't is reported, and the top-level branch holding them dropped.
+   */
+  close(): RootNode {
+    if (this.node.parent === this.root) {
+      return this.root;
+    }
+
+    while (this.node.parent !== this.root) {
+      const branching = this.node.parent!;
+      report(
+        this.diagnostics,
+        new UnclosedBranchError({ token: branching.token! }),
+      );
+      this.node = branching.parent!;
+    }
+
+    this.clear();
+
+    return this.root;
+  }
+
+  *end(): Iterable<Concept> {
+    for (const concepts of this.endBranches()) {
+      yield* concepts;
+    }
+  }
+
+  *endBranches(): Iterable<Concept[]> {
+    this.close();
+
+    yield* this.flushBranches();
+
+    const [branch] = this.root.children;
+
+    if (branch) {
+      this.root.remove(branch);
+      yield this.createContext().expand(branch);
+    }
+  }
+
+  protected createContext() {
+    return new ParseContext(null, [], [], this.diagnostics, this.tokens);
+  }
+
+  /**
+   * Drops what the current branch holds so far, which leaves nothing behind
+   * once it's closed.
+   */
+  protected clear() {
+    this.node.children.slice().forEach(child => this.node.remove(child));
+  }
+
+  /**
+   * Skips the rest of a branch in which an error occurred, up to the separator
+   * or bracket that ends it.
+   */
+  protected skip(token: Token): boolean {
+    if (OPENING_TOKEN_TYPES.includes(token.type)) {
+      this.skipDepth!++;
+      return true;
     }
+
+    if (CLOSING_TOKEN_TYPES.includes(token.type)) {
+      if (this.skipDepth! > 0) {
+        this.skipDepth!--;
+        return true;
+      }
+    } else if (token.type !== 'BRANCH_SEPARATOR' || this.skipDepth! > 0) {
+      return true;
+    }
+
+    this.skipDepth = null;
+
+    return false;
+  }
+}
+
+const OPENING_TOKEN_TYPES: TokenType[] = ['L_PAREN', 'L_CURLY', 'L_SQUARE'];
+
+const CLOSING_TOKEN_TYPES: TokenType[] = ['R_PAREN', 'R_CURLY', 'R_SQUARE'];
+
+/**
+ * Records an error in source as a diagnostic, or throws it when there's
+ * nowhere to record it.
+ */
+const report = (diagnostics: Diagnostic[] | null, error: unknown) => {
+  if (!diagnostics || !(error instanceof SourceError)) {
+    throw error;
+  }
+
+  diagnostics.push(error.diagnostic);
+};
+
+/**
+ * Expands a branch of the AST into concepts. Each context corresponds to a
+ * level of branching, and holds the head that its branches are attached to
+ * (referenced by `&`) along with the sequence preceding them (referenced by
+ * `...`).
+ */
+export class ParseContext {
+  parent: ParseContext | null;
+  head: Concept[];
+  prevSeq: Concept[];
+  diagnostics: Diagnostic[] | null;
+  /** The doc comments of the sequences being expanded, shared by forks */
+  docs: WeakMap<Concept[], string>;
+  /** Where atoms are read from, if that's recorded */
+  tokens: WeakMap<Concept, Token> | null;
+
+  constructor(
+    parent: ParseContext | null = null,
+    head: Concept[] = [],
+    prevSeq: Concept[] = [],
+    diagnostics: Diagnostic[] | null = parent?.diagnostics ?? null,
+    tokens: WeakMap<Concept, Token> | null = parent?.tokens ?? null,
+  ) {
+    this.parent = parent;
+    this.head = head;
+    this.prevSeq = prevSeq;
+    this.diagnostics = diagnostics;
+    this.docs = parent?.docs ?? new WeakMap();
+    this.tokens = tokens;
   }
 
-  consumeAtom(token: Token) {
-    const concept = new Concept(token.value);
+  fork(head: Concept[] = this.head, prevSeq: Concept[] = this.prevSeq) {
+    return new ParseContext(this, head, prevSeq);
+  }
+
+  expand(branch: BranchNode): Concept[] {
+    const concepts = new Map<string, Concept>();
+    const emit = (parts: Concept[]) => {
+      if (!parts.length) {
+        return;
+      }
+
+      const concept = Concept.fromParts(parts);
+      const doc = this.docs.get(parts) ?? concepts.get(concept.key)?.doc;
+
+      if (doc === undefined) {
+        concepts.set(concept.key, concept);
+        return;
+      }
+
+      // A single part may be used elsewhere, so it's documented as a copy
+      const documented = new Concept(
+        concept.key,
+        concept.parts,
+        concept.sorted,
+      );
+      documented.doc = doc;
+      concepts.set(concept.key, documented);
+    };
+
+    this.expandBranch(branch, [], emit).forEach(emit);
+
+    return Array.from(concepts.values());
+  }
 
-    if (this.permutations.length === 0) {
-      this.permutations = [[concept]];
+  expandBranch(
+    branch: BranchNode,
+    prefix: Concept[],
+    emit: (parts: Concept[]) => void,
+  ): Concept[][] {
+    // Branches of nothing but comments expand to nothing
+    if (!branch.hasContent()) {
+      return [];
     }
 
-    this.permutations = this.permutations.map(p => [...p, concept]);
+    // Branches that place the preceding sequence themselves aren't prefixed
+    const initial = this.document(
+      branch.referencesPrevSeq() ? [] : prefix,
+      branch.doc ?? this.docs.get(prefix),
+    );
+
+    try {
+      return branch.children.reduce<Concept[][]>(
+        (sequences, child) =>
+          sequences.flatMap(sequence =>
+            this.expandChild(child, sequence, emit).map(next =>
+              this.inheritDoc(sequence, next),
+            ),
+          ),
+        [initial],
+      );
+    } catch (error) {
+      // When recovering, a branch with an error expands to nothing
+      report(this.diagnostics, error);
+      return [];
+    }
   }
 
-  consumeBranchSeparator(token: Token) {}
+  expandChild(
+    node: AstNode,
+    sequence: Concept[],
+    emit: (parts: Concept[]) => void,
+  ): Concept[][] {
+    if (node instanceof AtomNode) {
+      const atom = new Concept(getCanonicalKey(node.token!.value));
 
-  consumePartSeparator(token: Token) {}
+      this.tokens?.set(atom, node.token!);
 
-  consumeLeftParen(token: Token) {}
+      return [[...sequence, atom]];
+    }
 
-  consumeRightParen(token: Token) {}
+    if (node instanceof HeadRefNode) {
+      return [[...sequence, ...this.resolve(this.head, node.token!)]];
+    }
 
-  consumeLeftCurly(token: Token) {}
+    if (node instanceof PrevSeqRefNode) {
+      const parts = this.resolve(this.prevSeq, node.token!);
+      const { start, end = parts.length } = node.range;
 
-  consumeRightCurly(token: Token) {}
+      if (start >= end || end > parts.length) {
+        throw new RangeOutOfBoundsError({
+          token: node.token!,
+          length: parts.length,
+        });
+      }
 
-  consumeLeftSquare(token: Token) {}
+      return [[...sequence, ...parts.slice(start, end)]];
+    }
 
-  consumeRightSquare(token: Token) {}
+    // {} distributes the sequence over its branches
+    if (node instanceof InlineBranchingNode) {
+      const context = this.fork(sequence, sequence);
 
-  consumeHeadRef(token: Token) {}
+      return node.children.flatMap(branch =>
+        context.expandBranch(branch, sequence, emit),
+      );
+    }
 
-  consumePrevSeqRef(token: Token) {}
+    // () distributes the last part over its branches, and keeps the sequence
+    if (node instanceof ParentheticalBranchingNode) {
+      const context = this.fork(this.head, sequence);
 
-  consumeSortedSetInit(token: Token) {}
+      node.children.forEach(branch => {
+        context
+          .expandBranch(
+            branch,
+            this.inheritDoc(sequence, sequence.slice(-1)),
+            emit,
+          )
+          .forEach(emit);
+      });
+
+      return [sequence];
+    }
+
+    // [] nests each of its branches as a compound part, and [: ] as a set
+    if (node instanceof NestedBranchingNode) {
+      const context = this.fork();
+
+      return node.children.flatMap(branch =>
+        context
+          .expandBranch(branch, [], emit)
+          .filter(parts => parts.length)
+          .map(parts => [...sequence, Concept.fromParts(parts, node.sorted)]),
+      );
+    }
+
+    return [sequence];
+  }
+
+  /**
+   * Copies a sequence that starts a branch, documented by the branch's doc
+   * comment or else by that of the sequence it continues.
+   */
+  protected document(sequence: Concept[], doc: string | undefined) {
+    const documented = [...sequence];
+
+    if (doc !== undefined) {
+      this.docs.set(documented, doc);
+    }
+
+    return documented;
+  }
+
+  /**
+   * Documents a sequence with the doc comment of the one it was expanded from,
+   * unless a doc comment of its own documents it already.
+   */
+  protected inheritDoc(from: Concept[], to: Concept[]) {
+    const doc = this.docs.get(from);
+
+    if (doc !== undefined && !this.docs.has(to)) {
+      this.docs.set(to, doc);
+    }
+
+    return to;
+  }
+
+  protected resolve(parts: Concept[], token: Token): Concept[] {
+    if (!parts.length) {
+      throw new UnresolvedReferenceError({ token });
+    }
+
+    return parts;
+  }
 }
 
-export default new ConceptParser();
+/**
+ * Parses source into an AST without expanding it into concepts.
+ */
+export const parseAst = (source: string): RootNode => {
+  const builder = new AstBuilder();
+
+  for (const token of generateTokens(source)) {
+    builder.consumeToken(token);
+  }
+
+  return builder.close();
+};
+
+const parser = new ConceptParser();
+
+export const parseConcepts = (source: string): Concept[] =>
+  parser.parse(source);
+
+export default parser;
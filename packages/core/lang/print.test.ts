@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'bun:test';
+import { ConceptPrinter, printConcepts } from './print';
+import { parseConcepts } from './parse';
+import { Concept } from '../concept';
+
+const keys = (concepts: Concept[]) => concepts.map(c => c.key).sort();
+
+describe('printConcepts', () => {
+  test('prints atoms and compounds', () => {
+    expect(printConcepts(parseConcepts('foo, foo bar'))).toBe('foo\nfoo bar\n');
+  });
+
+  test('groups shared heads', () => {
+    const source = printConcepts(
+      parseConcepts('john knows {mary, max}, john likes mary'),
+    );
+
+    expect(source).toBe(
+      'john {\n  knows {\n    mary\n    max\n  }\n  likes mary\n}\n',
+    );
+  });
+
+  test('prints nested compounds and sorted sets', () => {
+    const source = printConcepts(
+      parseConcepts('[john knows mary] since 2000, siblings [: mary john]'),
+    );
+
+    expect(source).toBe(
+      '[john knows mary] since 2000\nsiblings [: john mary]\n',
+    );
+  });
+
+  test('prints atoms that are not read back as is as literals', () => {
+    const source = printConcepts([
+      Concept.fromParts([new Concept('named'), new Concept('Eric Weber')]),
+      Concept.fromParts([new Concept('&'), new Concept('a,b')]),
+    ]);
+
+    expect(source).toBe('named <<Eric Weber>>\n<<&>> <<a,b>>\n');
+    expect(printConcepts([new Concept('a >> b\\')])).toBe('<<a \\>> b\\\\>>\n');
+  });
+
+  test('prints source that parses back into the same concepts', () => {
+    const concepts = parseConcepts(`
+      eric {
+        knows {
+          javascript
+          typescript
+          [... excel (spreadsheet-app)] since 1999
+        } (programming-language)
+        named <<Eric Weber>>
+        described-as <<a person
+
+        who writes code>>
+        [a b] c {(1) d, e}
+      }
+      eric (person)
+    `);
+
+    expect(keys(parseConcepts(printConcepts(concepts)))).toEqual(
+      keys(concepts),
+    );
+  });
+
+  test('prints documented concepts below their doc comment', () => {
+    const source = `
+      /** Friends */
+      john knows {
+        mary
+        /**
+         * From school,
+         * in 1999
+         */
+        max
+      }
+      john likes tea
+    `;
+    const printed = printConcepts(parseConcepts(source));
+
+    expect(printed).toBe(
+      [
+        '/** Friends */',
+        'john knows mary',
+        '/**',
+        ' * From school,',
+        ' * in 1999',
+        ' */',
+        'john knows max',
+        'john likes tea',
+        '',
+      ].join('\n'),
+    );
+    expect(parseConcepts(printed).map(({ key, doc }) => [key, doc])).toEqual(
+      parseConcepts(source).map(({ key, doc }) => [key, doc]),
+    );
+  });
+
+  test('uses the configured indentation', () => {
+    const printer = new ConceptPrinter({ indent: '\t' });
+
+    expect(printer.print(parseConcepts('a {b, c}'))).toBe('a {\n\tb\n\tc\n}\n');
+  });
+});
@@ -0,0 +1,133 @@
+import { Concept } from '../concept';
+import { escapeString } from '../literals';
+import { writeDocComment } from './comments';
+import { tokenize } from './tokens';
+
+export type PrintOptions = {
+  indent?: string;
+};
+
+/**
+ * Prints concepts as source that parses back into the same concepts, grouping
+ * concepts that share a head into `{...}` blocks.
+ */
+export class ConceptPrinter {
+  indent: string;
+
+  constructor(options: PrintOptions = {}) {
+    this.indent = options.indent ?? '  ';
+  }
+
+  /**
+   * Documented concepts are printed below their doc comment on their own, as
+   * grouping them with others would document the whole group.
+   */
+  print(concepts: Iterable<Concept>): string {
+    const branches: string[] = [];
+    let sequences: string[][] = [];
+
+    for (const concept of concepts) {
+      // Top-level compounds are written out as a sequence of their parts
+      const sequence =
+        concept.is('COMPOUND') && !concept.is('SORTED_SET')
+          ? concept.parts.map(part => this.printPart(part))
+          : [this.printPart(concept)];
+
+      if (concept.doc === undefined) {
+        sequences.push(sequence);
+        continue;
+      }
+
+      branches.push(
+        ...this.printBranches(sequences),
+        writeDocComment(concept.doc),
+        ...this.printBranches([sequence]),
+      );
+      sequences = [];
+    }
+
+    return [...branches, ...this.printBranches(sequences)]
+      .map(branch => `${branch}\n`)
+      .join('');
+  }
+
+  printPart(concept: Concept): string {
+    if (!concept.parts.length) {
+      return printAtom(concept.key);
+    }
+
+    const parts = concept.parts.map(part => this.printPart(part)).join(' ');
+
+    return concept.is('SORTED_SET') ? `[: ${parts}]` : `[${parts}]`;
+  }
+
+  /**
+   * Groups sequences by their first part, so that `a b, a c` is printed as
+   * `a {b, c}`. A head that's a concept itself is printed as its own branch,
+   * since `{...}` doesn't keep the head.
+   *
+   * Only the lines following the first one of each branch are indented, so
+   * that chains such as `a b {...}` can be joined onto one line.
+   */
+  protected printBranches(sequences: string[][], depth = 0): string[] {
+    return Array.from(groupByHead(sequences)).flatMap(([head, tails]) => {
+      const nonEmptyTails = tails.filter(tail => tail.length);
+      const printed = nonEmptyTails.length < tails.length ? [head] : [];
+
+      if (countBranches(nonEmptyTails) === 1) {
+        printed.push(`${head} ${this.printBranches(nonEmptyTails, depth)[0]}`);
+      } else if (nonEmptyTails.length) {
+        const padding = this.indent.repeat(depth);
+        const block = this.printBranches(nonEmptyTails, depth + 1)
+          .map(branch => `${padding}${this.indent}${branch}\n`)
+          .join('');
+
+        printed.push(`${head} {\n${block}${padding}}`);
+      }
+
+      return printed;
+    });
+  }
+}
+
+const groupByHead = (sequences: string[][]) => {
+  const groups = new Map<string, string[][]>();
+
+  sequences.forEach(([head, ...tail]) => {
+    const tails = groups.get(head) ?? [];
+    tails.push(tail);
+    groups.set(head, tails);
+  });
+
+  return groups;
+};
+
+const countBranches = (sequences: string[][]): number =>
+  Array.from(groupByHead(sequences).values()).reduce(
+    (count, tails) =>
+      count +
+      (tails.some(tail => !tail.length) ? 1 : 0) +
+      (tails.some(tail => tail.length) ? 1 : 0),
+    0,
+  );
+
+/**
+ * Prints an atom as is when it's read back as a single atom, and as a
+ * `<<...>>` literal otherwise.
+ */
+const printAtom = (key: string): string => {
+  const tokens = tokenize(key);
+
+  return tokens.length === 1 &&
+    tokens[0].type === 'ATOM' &&
+    tokens[0].value === key
+    ? key
+    : escapeString(key);
+};
+
+const printer = new ConceptPrinter();
+
+export const printConcepts = (concepts: Iterable<Concept>): string =>
+  printer.print(concepts);
+
+export default printer;
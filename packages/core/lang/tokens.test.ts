@@ -28,6 +28,44 @@ describe('parse', () => {
       expect(tokenize('{} []')).toEqual([]);
     });
 
+    test('starts over at the first column after a newline', () => {
+      const [, , token] = tokenize('foo\nbar');
+
+      expect(token.loc).toEqual({
+        start: { offset: 4, line: 2, column: 1 },
+        end: { offset: 7, line: 2, column: 4 },
+      });
+    });
+
+    test('reads comments where atoms could start', () => {
+      const tokens = tokenize(
+        '// note\n/** doc */ a /* x */ http://example.org/b//c /**/ d/*e',
+      );
+
+      expect(tokens.map(({ type, value }) => [type, value])).toEqual([
+        ['COMMENT', '// note'],
+        ['BRANCH_SEPARATOR', '\n'],
+        ['DOC_COMMENT', '/** doc */'],
+        ['PART_SEPARATOR', ' '],
+        ['ATOM', 'a'],
+        ['PART_SEPARATOR', ' '],
+        ['COMMENT', '/* x */'],
+        ['PART_SEPARATOR', ' '],
+        ['ATOM', 'http://example.org/b//c'],
+        ['PART_SEPARATOR', ' '],
+        ['COMMENT', '/**/'],
+        ['PART_SEPARATOR', ' '],
+        ['ATOM', 'd/*e'],
+      ]);
+    });
+
+    test('reads unclosed block comments up to the end', () => {
+      expect(tokenize('a /* b\nc').at(-1)).toMatchObject({
+        type: 'COMMENT',
+        value: '/* b\nc',
+      });
+    });
+
     test('works on complex input', () => {
       const tokens = tokenize(`
         eric-weber {
@@ -55,4 +93,62 @@ describe('parse', () => {
       expect(tokens).toMatchSnapshot();
     });
   });
+
+  describe('strings', () => {
+    test('reads escaped >> inside strings', () => {
+      expect(tokenize('<<a \\>> b\\\\>> c').map(token => token.value)).toEqual([
+        '<<a \\>> b\\\\>>',
+        ' ',
+        'c',
+      ]);
+    });
+  });
+
+  describe('generateTokens', () => {
+    const source = `// people
+eric {
+  /** What eric knows */
+  knows {javascript, typescript} (programming-language) /* so far */
+  described-as <<a person
+
+  who writes code>>
+  motto <<less \\>> more>>
+  [... 1..] since 1999
+}`;
+
+    async function* chunk(source: string, size: number) {
+      for (let i = 0; i < source.length; i += size) {
+        yield source.slice(i, i + size);
+      }
+    }
+
+    test('tokenizes async sources however they are split', async () => {
+      const tokens = tokenize(source);
+
+      for (const size of [1, 2, 3, 5, 8, 13, source.length]) {
+        expect(await tokenize(chunk(source, size))).toEqual(tokens);
+      }
+    });
+
+    test('yields no tokens for useless async sources', async () => {
+      expect(await tokenize(chunk('{ } [\n]', 1))).toEqual([]);
+    });
+
+    test('yields tokens before the source ends', async () => {
+      async function* lines() {
+        yield 'foo bar\n';
+        throw new Error('Interrupted');
+      }
+
+      const values: string[] = [];
+
+      try {
+        for await (const token of generateTokens(lines())) {
+          values.push(token.value);
+        }
+      } catch {}
+
+      expect(values).toEqual(['foo', ' ', 'bar']);
+    });
+  });
 });
@@ -1,3 +1,5 @@
+import { STRING_PATTERN } from '../literals';
+
 export type TokenType =
   | 'ATOM'
   | 'BRANCH_SEPARATOR'
@@ -10,7 +12,9 @@ export type TokenType =
   | 'R_SQUARE'
   | 'HEAD_REF'
   | 'PREV_SEQ_REF'
-  | 'SORTED_SET_INIT';
+  | 'SORTED_SET_INIT'
+  | 'COMMENT'
+  | 'DOC_COMMENT';
 
 export type Token = {
   type: TokenType;
@@ -98,19 +102,34 @@ export const tokenParsers: TokenParser[] = [
     parse: RegExpParser(/^[0-9]+\.{2}[0-9]+/),
   },
   {
-    // ..y
+    // x..
     type: 'PREV_SEQ_REF',
     parse: RegExpParser(/^[0-9]+\.{2}(?!\.)/),
   },
   {
-    // x..
+    // ..y
     type: 'PREV_SEQ_REF',
     parse: RegExpParser(/^\.{2}[0-9]+/),
   },
   {
-    // <<arbitrary string goes here>>
+    // /** documents the branch that follows */, running to the end if unclosed
+    type: 'DOC_COMMENT',
+    parse: RegExpParser(/^\/\*\*(?![*/])[\s\S]*?(?:\*\/|$)/),
+  },
+  {
+    // /* block comment */
+    type: 'COMMENT',
+    parse: RegExpParser(/^\/\*[\s\S]*?(?:\*\/|$)/),
+  },
+  {
+    // // line comment
+    type: 'COMMENT',
+    parse: RegExpParser(/^\/\/[^\n]*/),
+  },
+  {
+    // <<arbitrary string goes here>>, where \> stands for >
     type: 'ATOM',
-    parse: RegExpParser(/^<<(.|\n)*?>>/),
+    parse: RegExpParser(STRING_PATTERN),
   },
   {
     type: 'ATOM',
@@ -124,6 +143,21 @@ const CURSOR_INIT: Cursor = {
   column: 1,
 };
 
+/**
+ * Moves a cursor past some text, starting over at the first column after each
+ * newline.
+ */
+export const advanceCursor = (cursor: Cursor, text: string): Cursor => {
+  const lines = text.split('\n');
+
+  return {
+    offset: cursor.offset + text.length,
+    line: cursor.line + lines.length - 1,
+    column:
+      lines.length > 1 ? lines.at(-1)!.length + 1 : cursor.column + text.length,
+  };
+};
+
 export function tokenize(source: string): Token[];
 
 export function tokenize(source: AsyncIterable<string>): Promise<Token[]>;
@@ -142,90 +176,120 @@ export function generateTokens(
   source: AsyncIterable<string>,
 ): AsyncIterable<Token>;
 
-export function* generateTokens(
+export function generateTokens(
   source: string | AsyncIterable<string>,
 ): Iterable<Token> | AsyncIterable<Token> {
-  // Sync handling
-  if (typeof source === 'string') {
-    // Test for useless source
-    if (/^[\n\t ,\[\]\{\}\(\)]*$/.test(source)) {
-      return;
+  return typeof source === 'string'
+    ? generateSyncTokens(source)
+    : generateAsyncTokens(source);
+}
+
+/**
+ * Reads the token at the start of the input, or returns null when more input
+ * is needed to tell where that token ends.
+ *
+ * @param final Whether the input is all there is, as opposed to a chunk that
+ * may be followed by more
+ */
+export const readToken = (
+  input: string,
+  cursor: Cursor,
+  final = true,
+): Token | null => {
+  // An unterminated <<...>> literal would otherwise be read as an atom
+  if (!final && input.startsWith('<<') && !STRING_PATTERN.test(input)) {
+    return null;
+  }
+
+  for (const { type, parse } of tokenParsers) {
+    const value = parse(input);
+
+    if (!value) {
+      continue;
     }
 
-    const state = {
-      remainingSource: source,
-      cursor: CURSOR_INIT,
+    // A token running up to the end of a chunk might go on in the next one
+    if (!final && value.length === input.length) {
+      return null;
+    }
+
+    return {
+      type,
+      value,
+      loc: {
+        start: cursor,
+        end: advanceCursor(cursor, value),
+      },
     };
+  }
 
-    while (state.remainingSource) {
-      for (const { type, parse } of tokenParsers) {
-        const value = parse(state.remainingSource);
+  return null;
+};
 
-        if (!value) {
-          continue;
-        }
+function* generateSyncTokens(source: string): Iterable<Token> {
+  // Test for useless source
+  if (isFluff(source)) {
+    return;
+  }
 
-        const lines = value.split('\n');
+  const state = {
+    remainingSource: source,
+    cursor: CURSOR_INIT,
+  };
 
-        const token: Token = {
-          type,
-          value,
-          loc: {
-            start: state.cursor,
-            end: {
-              offset: state.cursor.offset + value.length,
-              line: state.cursor.line + lines.length - 1,
-              column: state.cursor.column + lines.at(-1)!.length,
-            },
-          },
-        };
+  while (state.remainingSource) {
+    const token = readToken(state.remainingSource, state.cursor)!;
 
-        state.remainingSource = state.remainingSource.slice(value.length);
-        state.cursor = token.loc.end;
+    state.remainingSource = state.remainingSource.slice(token.value.length);
+    state.cursor = token.loc.end;
 
-        yield token;
+    yield token;
+  }
+}
 
-        break;
-      }
-    }
+/**
+ * Tokenizes chunks as they come in, holding on only to the text of a token
+ * that may continue in the next chunk, so that tokens are the same wherever
+ * the source is split.
+ */
+async function* generateAsyncTokens(
+  source: AsyncIterable<string>,
+): AsyncIterable<Token> {
+  const state = {
+    remainingSource: '',
+    cursor: CURSOR_INIT,
+    // Source that's useless so far yields no tokens, as with strings
+    fluff: [] as Token[] | null,
+  };
 
-    return;
-  }
+  function* consume(final: boolean): Iterable<Token> {
+    let token: Token | null;
 
-  // Async handling
-  async function* handleAsync() {
-    const state = {
-      lastToken: null as Token | null,
-    };
+    while (
+      state.remainingSource &&
+      (token = readToken(state.remainingSource, state.cursor, final))
+    ) {
+      state.remainingSource = state.remainingSource.slice(token.value.length);
+      state.cursor = token.loc.end;
 
-    for await (const chunk of source) {
-      const prependedChunk = (state.lastToken?.value || '') + chunk;
-
-      for (const token of generateTokens(prependedChunk)) {
-        const isLastToken = token.loc.end.offset === chunk.length;
-
-        // Adjust token location
-        if (state.lastToken) {
-          token.loc.start.offset += state.lastToken.loc.end.offset;
-          token.loc.start.line += state.lastToken.loc.start.line;
-          token.loc.start.column += state.lastToken.loc.start.column;
-          token.loc.end.offset += state.lastToken.loc.end.offset;
-          token.loc.end.line += state.lastToken.loc.start.line;
-          token.loc.end.column += state.lastToken.loc.start.column;
-        }
-
-        if (!isLastToken) {
-          yield token;
-        } else {
-          state.lastToken = token;
-        }
+      if (!state.fluff) {
+        yield token;
+      } else if (isFluff(token.value)) {
+        state.fluff.push(token);
+      } else {
+        yield* state.fluff;
+        yield token;
+        state.fluff = null;
       }
     }
+  }
 
-    if (state.lastToken) {
-      yield state.lastToken;
-    }
+  for await (const chunk of source) {
+    state.remainingSource += chunk;
+    yield* consume(false);
   }
 
-  return handleAsync();
+  yield* consume(true);
 }
+
+const isFluff = (source: string) => /^[\n\t ,\[\]\{\}\(\)]*$/.test(source);
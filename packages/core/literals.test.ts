@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'bun:test';
+import { Concept } from './concept';
+import { compareConcepts, escapeString, unescapeString } from './literals';
+import { parseConcepts } from './lang/parse';
+
+describe('escapeString', () => {
+  test('escapes backslashes and >> so that strings read back the same', () => {
+    const texts = ['a >> b', 'ends with >', 'C:\\new', 'two\nlines', '>>>'];
+
+    texts.forEach(text => {
+      const [concept] = parseConcepts(escapeString(text));
+
+      expect(concept.is('STRING')).toBe(true);
+      expect(unescapeString(concept.key)).toBe(text);
+    });
+    expect(escapeString('a >> b>')).toBe('<<a \\>> b\\>>>');
+  });
+
+  test('keeps unknown escapes', () => {
+    expect(unescapeString('<<C:\\path\\n>>')).toBe('C:\\path\n');
+  });
+});
+
+describe('compareConcepts', () => {
+  test('orders values within and across types', () => {
+    const keys = [
+      'b',
+      '2000-01-01T00:00+01:00',
+      'false',
+      '10',
+      '2000-01-01',
+      '9',
+      '<<a>>',
+    ];
+
+    expect(
+      keys
+        .map(key => new Concept(key))
+        .sort(compareConcepts)
+        .map(concept => concept.key),
+    ).toEqual([
+      '9',
+      '10',
+      '2000-01-01T00:00+01:00',
+      '2000-01-01',
+      'false',
+      '<<a>>',
+      'b',
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { Concept } from './concept';
+
+export type LiteralTag = 'NUMBER' | 'DATE' | 'BOOLEAN' | 'STRING';
+
+/**
+ * Matches a `<<...>>` string, where `\>` stands for `>` so that `>>` can be
+ * written `\>>`, `\\` for `\`, and `\n`, `\r` and `\t` for the usual
+ * whitespace. Other backslashes are kept as they are.
+ */
+export const STRING_PATTERN = /^<<(?:[^\\>]|\\[\s\S]|>(?!>))*>>/;
+
+const NUMBER_PATTERN = /^-?[0-9]+(\.[0-9]+)?$/;
+
+const DATE_PATTERN =
+  /^([0-9]{4})-([0-9]{2})-([0-9]{2})(T[0-9]{2}:[0-9]{2}(:[0-9]{2}(\.[0-9]+)?)?(Z|[+-][0-9]{2}:[0-9]{2})?)?$/;
+
+/**
+ * Tells the type of literal atoms such as `42`, `-1.5`, `2000-01-31`,
+ * `2000-01-31T12:00Z`, `true` and `<<some text>>`, if any.
+ */
+export const getLiteralTag = (key: string): LiteralTag | null => {
+  if (key.startsWith('<<') && STRING_PATTERN.exec(key)?.[0] === key) {
+    return 'STRING';
+  }
+
+  if (NUMBER_PATTERN.test(key)) {
+    return 'NUMBER';
+  }
+
+  if (key === 'true' || key === 'false') {
+    return 'BOOLEAN';
+  }
+
+  return isDate(key) ? 'DATE' : null;
+};
+
+/**
+ * Reads an ISO date, as UTC unless it says otherwise.
+ */
+export const parseDate = (key: string): Date => {
+  const [, , , , time, , , zone] = DATE_PATTERN.exec(key) ?? [];
+
+  return new Date(time && !zone ? `${key}Z` : key);
+};
+
+/**
+ * Whether a key is an ISO date, with a day that exists in its month.
+ */
+const isDate = (key: string) => {
+  const [, year, month, day] = DATE_PATTERN.exec(key) ?? [];
+
+  if (!year) {
+    return false;
+  }
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+
+  return (
+    date.getUTCMonth() === Number(month) - 1 &&
+    date.getUTCDate() === Number(day) &&
+    !isNaN(parseDate(key).getTime())
+  );
+};
+
+const ESCAPES: Record<string, string> = {
+  '\\': '\\',
+  '>': '>',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Reads the text of a `<<...>>` string.
+ */
+export const unescapeString = (key: string): string =>
+  key.slice(2, -2).replace(/\\([\\>nrt])/g, (_, char: string) => ESCAPES[char]);
+
+/**
+ * Writes text as a `<<...>>` string, escaping backslashes and the `>` that
+ * would end it early.
+ */
+export const escapeString = (text: string): string =>
+  `<<${text.replace(/\\/g, '\\\\').replace(/>(?=>|$)/g, '\\>')}>>`;
+
+/**
+ * The key an atom is stored under. Strings are keyed by how `escapeString`
+ * writes their text, so that `<<a>b>>` and `<<a\>b>>` are the same concept.
+ */
+export const getCanonicalKey = (key: string): string =>
+  getLiteralTag(key) === 'STRING' ? escapeString(unescapeString(key)) : key;
+
+/**
+ * Compares the values of two concepts: numbers numerically, dates in time,
+ * booleans with `false` first, and strings and other atoms by their text.
+ * Returns null for values of different types, and for compounds other than
+ * equal ones, which have no order.
+ */
+export const compareValues = (a: Concept, b: Concept): number | null => {
+  const type = getValueType(a);
+
+  if (type !== getValueType(b)) {
+    return null;
+  }
+
+  switch (type) {
+    case 'NUMBER':
+      return a.number! - b.number!;
+    case 'DATE':
+      return a.date!.getTime() - b.date!.getTime();
+    case 'BOOLEAN':
+      return Number(a.boolean) - Number(b.boolean);
+    case 'TEXT':
+      return compareStrings(getText(a), getText(b));
+    case 'COMPOUND':
+      return a.key === b.key ? 0 : null;
+  }
+};
+
+/**
+ * Orders concepts by value, and those that can't be compared by type then
+ * key, so that sorting doesn't depend on the order concepts come in.
+ */
+export const compareConcepts = (a: Concept, b: Concept): number => {
+  const order = compareValues(a, b);
+
+  if (order !== null) {
+    return order;
+  }
+
+  return (
+    VALUE_TYPES.indexOf(getValueType(a)) -
+      VALUE_TYPES.indexOf(getValueType(b)) || compareStrings(a.key, b.key)
+  );
+};
+
+const VALUE_TYPES = ['NUMBER', 'DATE', 'BOOLEAN', 'TEXT', 'COMPOUND'] as const;
+
+const getValueType = (concept: Concept): (typeof VALUE_TYPES)[number] => {
+  if (concept.parts.length) {
+    return 'COMPOUND';
+  }
+
+  return (
+    (['NUMBER', 'DATE', 'BOOLEAN'] as const).find(tag => concept.is(tag)) ??
+    'TEXT'
+  );
+};
+
+const getText = (atom: Concept) => atom.string ?? atom.key;
+
+const compareStrings = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { loadSource } from './loader';
+
+describe('loadSource', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coeng-'));
+    fs.mkdirSync(path.join(dir, 'shared'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, source: string) =>
+    fs.writeFileSync(path.join(dir, file), source);
+
+  const load = (file: string) => loadSource(path.join(dir, file));
+
+  test('loads imports relative to the importing file, once each', () => {
+    write('main.co', '@imports {./people.co, <<shared/places.co>>}\nmain');
+    write('people.co', '@imports ./shared/places.co\njohn (person)');
+    write('shared/places.co', 'paris (place)');
+
+    const { files, concepts, diagnostics } = load('main.co');
+
+    expect(files.map(file => path.relative(dir, file.path))).toEqual([
+      'shared/places.co',
+      'people.co',
+      'main.co',
+    ]);
+    expect(concepts.map(c => c.key)).toEqual([
+      'paris place',
+      'paris',
+      'john person',
+      'john',
+      'main',
+    ]);
+    expect(diagnostics).toEqual([]);
+  });
+
+  test('reports import cycles with the chain of imports', () => {
+    write('a.co', 'a\n@imports ./shared/b.co');
+    write('shared/b.co', '@imports ../a.co');
+
+    const { diagnostics } = load('a.co');
+
+    expect(diagnostics).toMatchObject([
+      {
+        code: 'IMPORT_CYCLE',
+        message: 'Import cycle: a.co -> shared/b.co -> a.co',
+        path: path.join(dir, 'shared/b.co'),
+        loc: { start: { line: 1, column: 10 } },
+      },
+    ]);
+  });
+
+  test('reports missing imports and errors in imported files', () => {
+    write('main.co', '@imports {./missing.co, ./broken.co}');
+    write('broken.co', 'a b]');
+
+    const { diagnostics } = load('main.co');
+
+    expect(
+      diagnostics.map(({ code, message, path: file }) => [
+        code,
+        message,
+        path.relative(dir, file!),
+      ]),
+    ).toEqual([
+      ['UNEXPECTED_TOKEN', 'Unexpected R_SQUARE', 'broken.co'],
+      ['IMPORT_NOT_FOUND', 'Cannot find ./missing.co to import', 'main.co'],
+    ]);
+  });
+
+  test('reports imports of directories', () => {
+    write('main.co', '@imports ./shared');
+
+    const { diagnostics } = load('main.co');
+
+    expect(diagnostics).toMatchObject([
+      {
+        code: 'IMPORT_NOT_FILE',
+        message: 'Cannot import ./shared, not a file',
+        loc: { start: { line: 1, column: 10 } },
+      },
+    ]);
+  });
+
+  test('reports imports where they are written', () => {
+    write('main.co', './missing.co (file)\n@imports ./missing.co');
+
+    const { diagnostics } = load('main.co');
+
+    expect(diagnostics).toMatchObject([
+      {
+        code: 'IMPORT_NOT_FOUND',
+        loc: { start: { line: 2, column: 10 } },
+      },
+    ]);
+  });
+});
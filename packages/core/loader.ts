@@ -0,0 +1,159 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Concept } from './concept';
+import { Diagnostic } from './lang/diagnostics';
+import {
+  ImportCycleError,
+  ImportNotFileError,
+  ImportNotFoundError,
+  SourceError,
+} from './lang/errors';
+import parser from './lang/parse';
+import { Token } from './lang/tokens';
+
+export const IMPORT_DIRECTIVE = '@imports';
+
+export type SourceFile = {
+  path: string;
+  source: string;
+  concepts: Concept[];
+  diagnostics: Diagnostic[];
+};
+
+export type LoadResult = {
+  /** Every file loaded, each one after the files it imports */
+  files: SourceFile[];
+  concepts: Concept[];
+  diagnostics: Diagnostic[];
+};
+
+/**
+ * Loads a source file along with the files it imports through
+ * `@imports <path>` concepts, with paths relative to the importing file:
+ *
+ *   @imports {./people.co, <<../shared/places.co>>}
+ *
+ * Each file is loaded once however many files import it, and its concepts
+ * come before those of the files importing it. Errors, including missing
+ * imports, imports of directories and import cycles, are reported as
+ * diagnostics of the file they occur in.
+ */
+export class SourceLoader {
+  protected files = new Map<string, SourceFile>();
+
+  load(entry: string): LoadResult {
+    const files: SourceFile[] = [];
+
+    this.files.clear();
+    this.loadFile(path.resolve(entry), [], files);
+
+    return {
+      files,
+      concepts: files.flatMap(file => file.concepts),
+      diagnostics: files.flatMap(file => file.diagnostics),
+    };
+  }
+
+  protected loadFile(filePath: string, chain: string[], files: SourceFile[]) {
+    if (this.files.has(filePath)) {
+      return;
+    }
+
+    const source = this.readFile(filePath);
+    const { concepts, diagnostics, tokens } = parser.analyze(source);
+    const file: SourceFile = {
+      path: filePath,
+      source,
+      concepts: [],
+      diagnostics,
+    };
+
+    this.files.set(filePath, file);
+
+    concepts.forEach(concept => {
+      if (!isImport(concept)) {
+        file.concepts.push(concept);
+        return;
+      }
+
+      const target = concept.parts[1];
+      const token = tokens.get(target);
+
+      // Targets written as atoms are always located, but one that can't be
+      // pointed at couldn't have its errors reported, so it's kept as is
+      if (!token) {
+        file.concepts.push(concept);
+        return;
+      }
+
+      try {
+        this.loadImport(file, target, token, [...chain, filePath], files);
+      } catch (error) {
+        if (!(error instanceof SourceError)) {
+          throw error;
+        }
+
+        diagnostics.push(error.diagnostic);
+      }
+    });
+
+    diagnostics.forEach(diagnostic => {
+      diagnostic.path = filePath;
+    });
+
+    files.push(file);
+  }
+
+  protected loadImport(
+    importer: SourceFile,
+    target: Concept,
+    token: Token,
+    chain: string[],
+    files: SourceFile[],
+  ) {
+    const importPath = path.resolve(
+      path.dirname(importer.path),
+      target.string ?? target.key,
+    );
+
+    if (chain.includes(importPath)) {
+      const cycle = [...chain.slice(chain.indexOf(importPath)), importPath];
+      const base = path.dirname(cycle[0]);
+
+      throw new ImportCycleError({
+        token,
+        chain: cycle.map(file => path.relative(base, file)),
+      });
+    }
+
+    if (!this.files.has(importPath) && !this.exists(importPath)) {
+      throw new ImportNotFoundError({ token, path: target.key });
+    }
+
+    if (!this.files.has(importPath) && !this.isFile(importPath)) {
+      throw new ImportNotFileError({ token, path: target.key });
+    }
+
+    this.loadFile(importPath, chain, files);
+  }
+
+  protected readFile(filePath: string): string {
+    return fs.readFileSync(filePath, 'utf8');
+  }
+
+  protected exists(filePath: string): boolean {
+    return fs.existsSync(filePath);
+  }
+
+  protected isFile(filePath: string): boolean {
+    return fs.statSync(filePath).isFile();
+  }
+}
+
+export const loadSource = (entry: string): LoadResult =>
+  new SourceLoader().load(entry);
+
+const isImport = (concept: Concept) =>
+  concept.parts.length === 2 &&
+  concept.parts[0].key === IMPORT_DIRECTIVE &&
+  !concept.parts[1].parts.length;
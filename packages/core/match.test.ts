@@ -0,0 +1,187 @@
+import { describe, test, expect } from 'bun:test';
+import { Concept } from './concept';
+import { bind, findJoinedMatches, findMatches, unify, unifyAll } from './match';
+import { ConceptStore } from './store';
+import { parseConcepts } from './lang/parse';
+
+const parseConcept = (source: string) => parseConcepts(source)[0];
+
+const bindingKeys = (bindings: Record<string, Concept>) =>
+  Object.fromEntries(
+    Object.entries(bindings).map(([variable, concept]) => [
+      variable,
+      concept.key,
+    ]),
+  );
+
+describe('unify', () => {
+  test('binds variables', () => {
+    const bindings = unify(
+      parseConcept('$who knows $whom'),
+      parseConcept('john knows mary'),
+    );
+
+    expect(bindingKeys(bindings!)).toEqual({ $who: 'john', $whom: 'mary' });
+  });
+
+  test('binds the same variable to the same concept', () => {
+    const pattern = parseConcept('$who knows $who');
+
+    expect(unify(pattern, parseConcept('john knows mary'))).toBeNull();
+    expect(unify(pattern, parseConcept('john knows john'))).not.toBeNull();
+  });
+
+  test('matches nested compounds', () => {
+    const bindings = unify(
+      parseConcept('$who knows [$lang since $year]'),
+      parseConcept('john knows [typescript since 2012]'),
+    );
+
+    expect(bindingKeys(bindings!)).toEqual({
+      $who: 'john',
+      $lang: 'typescript',
+      $year: '2012',
+    });
+  });
+
+  test('respects existing bindings', () => {
+    const pattern = parseConcept('$who knows $whom');
+    const concept = parseConcept('john knows mary');
+
+    expect(unify(pattern, concept, { $who: new Concept('max') })).toBeNull();
+  });
+
+  test('matches parts of sorted sets in any order', () => {
+    const bindings = unify(parseConcept('[: $x b]'), parseConcept('[: b c]'));
+
+    expect(bindingKeys(bindings!)).toEqual({ $x: 'c' });
+    expect(unify(parseConcept('[: $x d]'), parseConcept('[: b c]'))).toBeNull();
+    expect(
+      unifyAll(parseConcept('[: $x $y]'), parseConcept('[: a b]')).map(
+        bindingKeys,
+      ),
+    ).toEqual([
+      { $x: 'a', $y: 'b' },
+      { $x: 'b', $y: 'a' },
+    ]);
+  });
+});
+
+describe('bind', () => {
+  test('substitutes bound variables', () => {
+    const concept = bind(parseConcept('$who knows [$lang since $year]'), {
+      $who: new Concept('john'),
+      $lang: new Concept('typescript'),
+    });
+
+    expect(concept.key).toBe('john knows [typescript since $year]');
+  });
+});
+
+describe('findMatches', () => {
+  const store = new ConceptStore(
+    parseConcepts(`
+      john knows {
+        mary
+        [typescript since 2012]
+        [javascript since 2000]
+      }
+      mary knows {john, [typescript since 2015]}
+      max knows max
+    `),
+  );
+
+  test('finds matching concepts', () => {
+    const matches = findMatches(store, parseConcept('$who knows mary'));
+
+    expect(matches.map(match => match.concept.key)).toEqual([
+      'john knows mary',
+    ]);
+    expect(bindingKeys(matches[0].bindings)).toEqual({ $who: 'john' });
+  });
+
+  test('finds matches at nested depth', () => {
+    const matches = findMatches(
+      store,
+      parseConcept('$who knows [typescript since $year]'),
+    );
+
+    expect(matches.map(match => bindingKeys(match.bindings))).toEqual([
+      { $who: 'john', $year: '2012' },
+      { $who: 'mary', $year: '2015' },
+    ]);
+  });
+
+  test('finds matches of repeated variables', () => {
+    const matches = findMatches(store, parseConcept('$who knows $who'));
+
+    expect(matches.map(match => match.concept.key)).toEqual(['max knows max']);
+  });
+
+  test('finds ground concepts', () => {
+    expect(findMatches(store, parseConcept('john knows mary'))).toHaveLength(1);
+    expect(findMatches(store, parseConcept('john knows max'))).toHaveLength(0);
+  });
+
+  test('applies initial bindings', () => {
+    const matches = findMatches(store, parseConcept('$who knows $whom'), {
+      $who: new Concept('mary'),
+    });
+
+    expect(matches.map(match => match.concept.key)).toEqual([
+      'mary knows john',
+      'mary knows [typescript since 2015]',
+    ]);
+  });
+
+  test('finds sorted sets holding a part wherever it sorts', () => {
+    const sets = new ConceptStore(
+      parseConcepts('siblings {[: anne bob], [: bob carl], [: bob]}'),
+    );
+    const matches = findMatches(sets, parseConcept('siblings [: $x bob]'));
+
+    expect(matches.map(match => bindingKeys(match.bindings))).toEqual([
+      { $x: 'anne' },
+      { $x: 'carl' },
+    ]);
+  });
+});
+
+describe('findJoinedMatches', () => {
+  const store = new ConceptStore(
+    parseConcepts(`
+      john knows {[typescript since 2012], [javascript since 2000]}
+      mary knows [typescript since 2015]
+      max born 1990-05-17
+      ada born 1815-12-10
+    `),
+  );
+
+  const findYears = (...guards: string[]) =>
+    findJoinedMatches(
+      store,
+      parseConcepts(`$who knows [$lang since $year]\n${guards.join('\n')}`),
+    ).map(bindings => `${bindings.$who.key} ${bindings.$year.key}`);
+
+  test('filters matches by guards', () => {
+    expect(findYears('$year > 2010')).toEqual(['john 2012', 'mary 2015']);
+    expect(findYears('$year >= 2012', '$year < 2015')).toEqual(['john 2012']);
+    expect(findYears('$year != 2012', '$lang = typescript')).toEqual([
+      'mary 2015',
+    ]);
+  });
+
+  test('compares dates', () => {
+    const matches = findJoinedMatches(
+      store,
+      parseConcepts('$who born $date, $date < 1900-01-01'),
+    );
+
+    expect(matches.map(bindings => bindings.$who.key)).toEqual(['ada']);
+  });
+
+  test('never orders values of different types', () => {
+    expect(findYears('$year < <<3000>>')).toEqual([]);
+    expect(findYears('$year != <<2012>>')).toHaveLength(3);
+  });
+});
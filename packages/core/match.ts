@@ -0,0 +1,346 @@
+import { Concept } from './concept';
+import { compareValues } from './literals';
+import { ConceptStore } from './store';
+
+export type Bindings = Record<string, Concept>;
+
+export type Match = {
+  concept: Concept;
+  bindings: Bindings;
+};
+
+/**
+ * Finds every stored concept that matches a pattern such as
+ * `$who knows [$lang since $year]`, along with the variable bindings of each
+ * match. Variables already bound in `bindings` are substituted beforehand.
+ */
+export const findMatches = (
+  store: ConceptStore,
+  pattern: Concept,
+  bindings: Bindings = {},
+): Match[] => {
+  const boundPattern = bind(pattern, bindings);
+
+  if (isGround(boundPattern)) {
+    const concept = store.get(boundPattern.key);
+    return concept ? [{ concept, bindings }] : [];
+  }
+
+  const mask = boundPattern.toMask();
+  const matches: Match[] = [];
+
+  for (const concept of findCandidates(store, boundPattern)) {
+    if (!fitsMask(mask, concept)) {
+      continue;
+    }
+
+    unifyAll(boundPattern, concept, bindings).forEach(conceptBindings => {
+      matches.push({ concept, bindings: conceptBindings });
+    });
+  }
+
+  return matches;
+};
+
+/**
+ * Finds the bindings that satisfy several patterns at once, where variables
+ * shared between patterns must bind to the same concepts. Guards among the
+ * patterns filter the bindings of the others.
+ */
+export const findJoinedMatches = (
+  store: ConceptStore,
+  patterns: Concept[],
+  bindings: Bindings = {},
+): Bindings[] => {
+  const guards = patterns.filter(isGuard);
+
+  return patterns
+    .filter(pattern => !isGuard(pattern))
+    .reduce<Bindings[]>(
+      (allBindings, pattern) =>
+        allBindings.flatMap(patternBindings =>
+          findMatches(store, pattern, patternBindings).map(
+            match => match.bindings,
+          ),
+        ),
+      [bindings],
+    )
+    .filter(joinedBindings =>
+      guards.every(guard => testGuard(guard, joinedBindings)),
+    );
+};
+
+const COMPARISONS = new Map<string, (order: number) => boolean>([
+  ['=', order => order === 0],
+  ['!=', order => order !== 0],
+  ['<', order => order < 0],
+  ['<=', order => order <= 0],
+  ['>', order => order > 0],
+  ['>=', order => order >= 0],
+]);
+
+/**
+ * Whether a pattern is a guard such as `$year > 2000`, which compares the
+ * values its variables are bound to rather than matching stored concepts.
+ * Guards compare with `=`, `!=`, `<`, `<=`, `>` and `>=`.
+ */
+export const isGuard = (pattern: Concept): boolean =>
+  pattern.size === 3 &&
+  !pattern.is('SORTED_SET') &&
+  COMPARISONS.has(pattern.parts[1].key) &&
+  !isGround(pattern);
+
+/**
+ * Whether bindings satisfy a guard. Values of different types are never equal
+ * or ordered, and a guard whose variables aren't all bound fails.
+ */
+export const testGuard = (guard: Concept, bindings: Bindings): boolean => {
+  const [left, operator, right] = guard.parts.map(part => bind(part, bindings));
+
+  if (!isGround(left) || !isGround(right)) {
+    return false;
+  }
+
+  const order = compareValues(left, right);
+
+  if (order === null) {
+    return operator.key === '!=';
+  }
+
+  return COMPARISONS.get(operator.key)!(order);
+};
+
+/**
+ * Matches a pattern against a single concept, returning the first bindings
+ * that make them equal or null if there are none (see `unifyAll`).
+ */
+export const unify = (
+  pattern: Concept,
+  concept: Concept,
+  bindings: Bindings = {},
+): Bindings | null => unifyAll(pattern, concept, bindings)[0] ?? null;
+
+/**
+ * Matches a pattern against a single concept, returning every set of bindings
+ * that makes them equal. The same variable must bind to the same concept
+ * wherever it's used, while `$` matches anything. Parts of sorted sets match
+ * in any order, so `[: $x b]` matches `[: b c]` with `$x` bound to `c`, and a
+ * set pattern can match a set in several ways.
+ */
+export const unifyAll = (
+  pattern: Concept,
+  concept: Concept,
+  bindings: Bindings = {},
+): Bindings[] => {
+  if (pattern.is('VARIABLE')) {
+    if (pattern.key === '$') {
+      return [bindings];
+    }
+
+    const bound = bindings[pattern.key];
+
+    if (bound) {
+      return bound.key === concept.key ? [bindings] : [];
+    }
+
+    return [{ ...bindings, [pattern.key]: concept }];
+  }
+
+  if (isGround(pattern)) {
+    return pattern.key === concept.key ? [bindings] : [];
+  }
+
+  if (pattern.size !== concept.size || pattern.sorted !== concept.sorted) {
+    return [];
+  }
+
+  if (pattern.sorted) {
+    return unifySet(pattern.parts, concept.parts, bindings);
+  }
+
+  return pattern.parts.reduce<Bindings[]>(
+    (allBindings, part, index) =>
+      allBindings.flatMap(partBindings =>
+        unifyAll(part, concept.parts[index], partBindings),
+      ),
+    [bindings],
+  );
+};
+
+/**
+ * Unifies the parts of a set pattern with those of a set regardless of their
+ * order: ground parts must be in the set, and the others are unified with
+ * what's left of it in every order.
+ */
+const unifySet = (
+  patterns: Concept[],
+  concepts: Concept[],
+  bindings: Bindings,
+): Bindings[] => {
+  const remaining = new Map(concepts.map(concept => [concept.key, concept]));
+  const open = patterns.filter(pattern => !isGround(pattern));
+
+  if (
+    !patterns
+      .filter(pattern => isGround(pattern))
+      .every(pattern => remaining.delete(pattern.key))
+  ) {
+    return [];
+  }
+
+  const allBindings = unifyUnordered(
+    open,
+    Array.from(remaining.values()),
+    bindings,
+  );
+
+  // Orders that only differ in what `$` matched bind the same
+  return Array.from(
+    new Map(
+      allBindings.map(setBindings => [
+        getBindingsKey(setBindings),
+        setBindings,
+      ]),
+    ).values(),
+  );
+};
+
+const unifyUnordered = (
+  patterns: Concept[],
+  concepts: Concept[],
+  bindings: Bindings,
+): Bindings[] => {
+  if (!patterns.length) {
+    return [bindings];
+  }
+
+  const [pattern, ...rest] = patterns;
+
+  return concepts.flatMap((concept, index) =>
+    unifyAll(pattern, concept, bindings).flatMap(partBindings =>
+      unifyUnordered(
+        rest,
+        concepts.filter((_, other) => other !== index),
+        partBindings,
+      ),
+    ),
+  );
+};
+
+/**
+ * Replaces the bound variables of a template with their values.
+ */
+export const bind = (template: Concept, bindings: Bindings): Concept => {
+  if (template.is('VARIABLE')) {
+    return bindings[template.key] ?? template;
+  }
+
+  if (isGround(template)) {
+    return template;
+  }
+
+  const parts = template.parts.map(part => bind(part, bindings));
+
+  return Concept.fromParts(parts, template.sorted);
+};
+
+/**
+ * Identifies a set of bindings regardless of the order of its variables.
+ */
+export const getBindingsKey = (bindings: Bindings): string =>
+  Object.keys(bindings)
+    .sort()
+    .map(variable => `${variable}=${Concept.wrapKey(bindings[variable])}`)
+    .join(' ');
+
+/**
+ * The named variables of a concept, in the order they first appear.
+ */
+export const getVariables = (concept: Concept): string[] => {
+  if (!concept.parts.length) {
+    return concept.is('VARIABLE') && concept.key !== '$' ? [concept.key] : [];
+  }
+
+  return Array.from(new Set(concept.parts.flatMap(getVariables)));
+};
+
+export const isGround = (concept: Concept): boolean =>
+  concept.parts.length
+    ? concept.parts.every(isGround)
+    : !concept.is('VARIABLE');
+
+/**
+ * Whether a concept has the structure of a mask (see `Concept.toMask`), which
+ * is cheaper to check than unifying.
+ */
+const fitsMask = (mask: Concept, concept: Concept): boolean => {
+  if (mask.key === '$' || mask.key === concept.key) {
+    return true;
+  }
+
+  // Parts of sets are matched in any order, so only their number is checked
+  if (mask.sorted) {
+    return concept.sorted && mask.size === concept.size;
+  }
+
+  return (
+    mask.size > 0 &&
+    mask.size === concept.size &&
+    mask.parts.every((part, index) => fitsMask(part, concept.parts[index]))
+  );
+};
+
+/**
+ * Narrows down the concepts that could match a pattern using the store's
+ * indexes, picking the smallest set of concepts sharing a ground part.
+ */
+const findCandidates = (
+  store: ConceptStore,
+  pattern: Concept,
+): Iterable<Concept> => {
+  if (pattern.is('VARIABLE')) {
+    return store;
+  }
+
+  let candidates: ReadonlySet<Concept> | null = null;
+
+  for (const [position, part] of pattern.parts.entries()) {
+    if (!isGround(part)) {
+      continue;
+    }
+
+    const concepts = pattern.sorted
+      ? findSetsHolding(store, part, pattern.size)
+      : store.findByPart(position, part.key);
+
+    if (!candidates || concepts.size < candidates.size) {
+      candidates = concepts;
+    }
+  }
+
+  return (
+    candidates ?? store.findByTag(pattern.sorted ? 'SORTED_SET' : 'COMPOUND')
+  );
+};
+
+/**
+ * Finds the sets of a size that hold a part, at whichever position it's
+ * sorted to.
+ */
+const findSetsHolding = (
+  store: ConceptStore,
+  part: Concept,
+  size: number,
+): ReadonlySet<Concept> => {
+  const sets = new Set<Concept>();
+
+  for (let position = 0; position < size; position++) {
+    store.findByPart(position, part.key).forEach(concept => {
+      if (concept.sorted) {
+        sets.add(concept);
+      }
+    });
+  }
+
+  return sets;
+};
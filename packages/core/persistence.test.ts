@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PersistentConceptStore } from './persistence';
+import { parseConcepts } from './lang/parse';
+
+describe('PersistentConceptStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coeng-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const reopen = (store: PersistentConceptStore) => {
+    store.close();
+    return PersistentConceptStore.open(dir);
+  };
+
+  test('rebuilds the store from the log', () => {
+    const store = PersistentConceptStore.open(dir);
+
+    parseConcepts('john knows {mary, max}').forEach(c => store.add(c));
+    store.remove('john knows max');
+
+    const reopened = reopen(store);
+
+    expect(Array.from(reopened).map(c => c.key)).toEqual(['john knows mary']);
+    expect(reopened.get('john knows mary')!.parts).toHaveLength(3);
+
+    reopened.close();
+  });
+
+  test('compacts the log into snapshots', () => {
+    const store = PersistentConceptStore.open(dir, { snapshotInterval: 3 });
+
+    parseConcepts('a b, c d, e f, g h').forEach(c => store.add(c));
+    store.remove('a b');
+
+    expect(fs.readFileSync(store.logPath, 'utf8').split('\n')).toHaveLength(3);
+    expect(
+      fs.readFileSync(store.snapshotPath, 'utf8').split('\n'),
+    ).toHaveLength(4);
+
+    const reopened = reopen(store);
+
+    expect(Array.from(reopened).map(c => c.key)).toEqual(['c d', 'e f', 'g h']);
+
+    reopened.close();
+  });
+
+  test('survives a truncated last record', () => {
+    const store = PersistentConceptStore.open(dir);
+
+    parseConcepts('a b, c d').forEach(c => store.add(c));
+    store.close();
+
+    const log = fs.readFileSync(store.logPath, 'utf8');
+    fs.writeFileSync(store.logPath, log.slice(0, -10));
+
+    const reopened = PersistentConceptStore.open(dir);
+
+    expect(Array.from(reopened).map(c => c.key)).toEqual(['a b']);
+
+    parseConcepts('e f').forEach(c => reopened.add(c));
+
+    const reopenedAgain = reopen(reopened);
+
+    expect(Array.from(reopenedAgain).map(c => c.key)).toEqual(['a b', 'e f']);
+
+    reopenedAgain.close();
+  });
+
+  test('logs transactions as single records', () => {
+    const store = PersistentConceptStore.open(dir);
+
+    store.add(parseConcepts('a b')[0]);
+    store.transaction(() => {
+      parseConcepts('c d, e f').forEach(c => store.add(c));
+      store.remove('a b');
+      store.remove('e f');
+    });
+
+    expect(() =>
+      store.transaction(() => {
+        store.add(parseConcepts('g h')[0]);
+        throw new Error('Oops');
+      }),
+    ).toThrow('Oops');
+
+    expect(fs.readFileSync(store.logPath, 'utf8').split('\n')).toHaveLength(3);
+
+    const reopened = reopen(store);
+
+    expect(Array.from(reopened).map(c => c.key)).toEqual(['c d']);
+
+    reopened.close();
+  });
+
+  test('throws on corrupt records', () => {
+    fs.writeFileSync(path.join(dir, 'log.jsonl'), 'oops\n{}\n');
+
+    expect(() => PersistentConceptStore.open(dir)).toThrow('Corrupt record in');
+  });
+});
@@ -0,0 +1,258 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Concept, SerializedConcept } from './concept';
+import { CorruptLogError, ReadOnlyStoreError } from './errors';
+import { ConceptStore, StoreChange } from './store';
+
+export type ChangeRecord = {
+  op: 'add' | 'remove';
+  concept: SerializedConcept;
+};
+
+/**
+ * A change, or the changes of a transaction, which are written as one record
+ * so that a crash can't leave a transaction half-applied.
+ */
+export type LogRecord =
+  | ChangeRecord
+  | { op: 'commit'; changes: ChangeRecord[] };
+
+export type PersistentConceptStoreOptions = {
+  snapshotInterval?: number;
+  /** Read the store without writing to its directory, nor creating it */
+  readOnly?: boolean;
+};
+
+const SNAPSHOT_FILE = 'snapshot.jsonl';
+const LOG_FILE = 'log.jsonl';
+
+/**
+ * A store that persists itself to a directory, by appending every add and
+ * remove to a log and periodically compacting the log into a snapshot. Opening
+ * the directory again rebuilds the store from the snapshot and the log. Records
+ * are synced to disk as they're appended, so changes survive power loss too.
+ */
+export class PersistentConceptStore extends ConceptStore {
+  dir: string;
+  snapshotInterval: number;
+  readOnly: boolean;
+
+  protected logFd: number | null = null;
+  protected logSize = 0;
+
+  protected constructor(
+    dir: string,
+    options: PersistentConceptStoreOptions = {},
+  ) {
+    super();
+    this.dir = dir;
+    this.snapshotInterval = options.snapshotInterval ?? 1000;
+    this.readOnly = options.readOnly ?? false;
+  }
+
+  static open(
+    dir: string,
+    options: PersistentConceptStoreOptions = {},
+  ): PersistentConceptStore {
+    const store = new PersistentConceptStore(dir, options);
+
+    if (store.readOnly) {
+      store.restore();
+      return store;
+    }
+
+    fs.mkdirSync(dir, { recursive: true });
+    store.restore();
+    store.logFd = fs.openSync(store.logPath, 'a');
+
+    return store;
+  }
+
+  get snapshotPath(): string {
+    return path.join(this.dir, SNAPSHOT_FILE);
+  }
+
+  get logPath(): string {
+    return path.join(this.dir, LOG_FILE);
+  }
+
+  add(concept: Concept) {
+    this.assertWritable();
+
+    if (!this.has(concept)) {
+      super.add(concept);
+      this.append({ op: 'add', concept: concept.serialize() });
+    }
+
+    return this;
+  }
+
+  remove(concept: Concept | string): boolean {
+    this.assertWritable();
+
+    const stored = this.get(
+      typeof concept === 'string' ? concept : concept.key,
+    );
+
+    if (!stored || !super.remove(stored)) {
+      return false;
+    }
+
+    this.append({ op: 'remove', concept: stored.serialize() });
+
+    return true;
+  }
+
+  commit(): StoreChange[] {
+    const changes = super.commit();
+
+    if (changes.length) {
+      this.append({
+        op: 'commit',
+        changes: changes.map(({ op, concept }) => ({
+          op,
+          concept: concept.serialize(),
+        })),
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Writes every concept to a new snapshot and empties the log. The snapshot
+   * is swapped in atomically, and since replaying the log over a snapshot that
+   * already includes it changes nothing, a crash at any point is recoverable.
+   */
+  snapshot() {
+    this.assertWritable();
+
+    const tempPath = `${this.snapshotPath}.tmp`;
+    const fd = fs.openSync(tempPath, 'w');
+
+    try {
+      for (const concept of this) {
+        fs.writeSync(fd, `${JSON.stringify(concept.serialize())}\n`);
+      }
+
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    fs.renameSync(tempPath, this.snapshotPath);
+    // The log is only emptied once the rename itself is on disk
+    syncDir(this.dir);
+
+    if (this.logFd !== null) {
+      fs.ftruncateSync(this.logFd, 0);
+    }
+
+    this.logSize = 0;
+  }
+
+  close() {
+    if (this.logFd !== null) {
+      fs.closeSync(this.logFd);
+      this.logFd = null;
+    }
+  }
+
+  protected assertWritable() {
+    if (this.readOnly) {
+      throw new ReadOnlyStoreError({ dir: this.dir });
+    }
+  }
+
+  protected append(record: LogRecord) {
+    // Records replayed while restoring are already in the log, and changes
+    // made in a transaction are written once it's committed
+    if (this.logFd === null || this.inTransaction) {
+      return;
+    }
+
+    // A change is only durable once it's on disk, rather than in the page
+    // cache that a power loss would wipe
+    fs.writeSync(this.logFd, `${JSON.stringify(record)}\n`);
+    fs.fsyncSync(this.logFd);
+    this.logSize++;
+
+    if (this.logSize >= this.snapshotInterval) {
+      this.snapshot();
+    }
+  }
+
+  protected restore() {
+    // Snapshots are only ever swapped in once they're complete
+    readLines(this.snapshotPath).forEach(({ line }) => {
+      super.add(Concept.deserialize(JSON.parse(line)));
+    });
+
+    readLines(this.logPath).forEach(({ line, offset, complete }, index) => {
+      // A crash can leave the last record half-written, in which case it's
+      // dropped so that new records aren't appended to it
+      if (!complete) {
+        if (!this.readOnly) {
+          fs.truncateSync(this.logPath, offset);
+        }
+
+        return;
+      }
+
+      let record: LogRecord;
+
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        throw new CorruptLogError({ path: this.logPath, line: index + 1 });
+      }
+
+      const changes = record.op === 'commit' ? record.changes : [record];
+
+      changes.forEach(change => {
+        const concept = Concept.deserialize(change.concept);
+
+        if (change.op === 'add') {
+          super.add(concept);
+        } else {
+          super.remove(concept);
+        }
+      });
+
+      this.logSize++;
+    });
+  }
+}
+
+const syncDir = (dir: string) => {
+  const fd = fs.openSync(dir, 'r');
+
+  try {
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+};
+
+/**
+ * Reads the lines of a file along with their byte offsets, where only the last
+ * line can be incomplete, i.e. not terminated by a newline.
+ */
+const readLines = (filePath: string) => {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  const lines = content.split('\n');
+  let offset = 0;
+
+  return lines.flatMap((line, index) => {
+    const lineOffset = offset;
+    offset += Buffer.byteLength(line) + 1;
+
+    return line
+      ? [{ line, offset: lineOffset, complete: index < lines.length - 1 }]
+      : [];
+  });
+};
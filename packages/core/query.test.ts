@@ -0,0 +1,131 @@
+import { describe, test, expect } from 'bun:test';
+import { Query } from './query';
+import { Bindings } from './match';
+import { ConceptStore } from './store';
+import { parseConcepts } from './lang/parse';
+
+const store = new ConceptStore(
+  parseConcepts(`
+    john knows {typescript, javascript}
+    mary knows typescript
+    mary knows-since [typescript 2015]
+    max knows typescript
+    max knows-since [typescript 2019]
+    ada knows typescript
+    mary lives-in paris
+  `),
+);
+
+const run = (source: string) =>
+  Query.fromClauses(parseConcepts(source)).run(store).map(formatBindings);
+
+const formatBindings = (bindings: Bindings) =>
+  Object.fromEntries(
+    Object.entries(bindings).map(([variable, value]) => [variable, value.key]),
+  );
+
+describe('Query', () => {
+  test('joins patterns on shared variables', () => {
+    expect(
+      run(`
+        @matches $who knows typescript
+        @matches $who lives-in $city
+      `),
+    ).toEqual([{ $who: 'mary', $city: 'paris' }]);
+  });
+
+  test('drops results matching negated patterns', () => {
+    expect(
+      run(`
+        @matches $who knows typescript
+        @not $who knows javascript
+        @not $who lives-in $
+      `),
+    ).toEqual([{ $who: 'max' }, { $who: 'ada' }]);
+  });
+
+  test('keeps results without matches for optional patterns', () => {
+    expect(
+      run(`
+        @matches $who knows typescript
+        @not $who knows javascript
+        @optional $who knows-since [typescript $year]
+      `),
+    ).toEqual([
+      { $who: 'mary', $year: '2015' },
+      { $who: 'max', $year: '2019' },
+      { $who: 'ada' },
+    ]);
+  });
+
+  test('selects and orders variables', () => {
+    expect(
+      run(`
+        @matches $who knows $lang
+        @optional $who knows-since [$lang $year]
+        @selects {$year, $who}
+        @orders $year desc
+        @orders $who
+      `),
+    ).toEqual([
+      { $year: '2019', $who: 'max' },
+      { $year: '2015', $who: 'mary' },
+      { $who: 'ada' },
+      { $who: 'john' },
+    ]);
+  });
+
+  test('filters results by guards', () => {
+    expect(
+      run(`
+        @matches $who knows-since [$lang $year]
+        @optional $who lives-in $city
+        @matches $year < 2019
+        @not $city = paris
+      `),
+    ).toEqual([]);
+    expect(
+      run(`
+        @matches $who knows-since [$lang $year]
+        @not $year >= 2019
+      `),
+    ).toEqual([{ $who: 'mary', $lang: 'typescript', $year: '2015' }]);
+  });
+
+  test('orders values by type', () => {
+    const store = new ConceptStore(
+      parseConcepts('a is {10, 9, 2000-01-01, <<b>>, a, 1.5, true}'),
+    );
+    const results = Query.fromClauses(
+      parseConcepts('@matches a is $x, @orders $x'),
+    ).run(store);
+
+    expect(results.map(bindings => bindings.$x.key)).toEqual([
+      '1.5',
+      '9',
+      '10',
+      '2000-01-01',
+      'true',
+      'a',
+      '<<b>>',
+    ]);
+  });
+
+  test('throws on invalid clauses', () => {
+    expect(() => run('@not $who knows javascript')).toThrow(
+      'Invalid query clause @not $who knows javascript: missing @matches',
+    );
+    expect(() => run('@matches $x knows y, @selects $z')).toThrow(
+      'Invalid query clause @selects $z: $z is not bound by any pattern',
+    );
+    expect(() => run('@matches $x knows y, @matches $z > 1')).toThrow(
+      'Invalid query clause @matches $z > 1: $z is not bound by any pattern',
+    );
+    expect(() => run('@matches $x knows y, @orders $x sideways')).toThrow(
+      'Invalid query clause @orders $x sideways: expected @orders $variable [asc|desc]',
+    );
+    expect(() => run('@matches $x knows y, @limits 10')).toThrow(
+      'Invalid query clause @limits 10: unknown directive',
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import { Concept } from './concept';
+import { InvalidQueryError } from './errors';
+import { compareConcepts } from './literals';
+import {
+  Bindings,
+  findJoinedMatches,
+  findMatches,
+  getBindingsKey,
+  getVariables,
+  isGuard,
+  testGuard,
+} from './match';
+import { ConceptStore } from './store';
+
+export enum QueryDirective {
+  Matches = '@matches',
+  Not = '@not',
+  Optional = '@optional',
+  Selects = '@selects',
+  Orders = '@orders',
+}
+
+export type QueryOrder = {
+  variable: string;
+  descending: boolean;
+};
+
+/**
+ * A query made up of clauses headed by a directive, e.g.
+ *
+ *   QUERY {
+ *     @matches $who knows typescript
+ *     @not $who knows javascript
+ *     @optional $who knows typescript since $year
+ *     @not $year < 2010
+ *     @selects {$who, $year}
+ *     @orders $year desc
+ *   }
+ *
+ * Variables shared between `@matches` patterns must bind to the same concepts.
+ * Each `@optional` pattern adds its bindings where it matches and leaves the
+ * results alone where it doesn't, and `@not` patterns drop the results they
+ * match, including through variables bound by optional patterns. Guards such
+ * as `$year < 2010` compare bound values instead of matching concepts.
+ */
+export class Query {
+  patterns: Concept[] = [];
+  negations: Concept[] = [];
+  optionals: Concept[] = [];
+  /** Guards of `@matches` clauses, checked once optional patterns have matched */
+  guards: Concept[] = [];
+  /** The variables kept in results, or all of them if empty */
+  variables: string[] = [];
+  orders: QueryOrder[] = [];
+
+  /**
+   * Creates a query from clauses such as `@matches $who knows typescript`.
+   */
+  static fromClauses(clauses: Concept[]): Query {
+    const query = new Query();
+
+    clauses.forEach(clause => {
+      const [directive, ...parts] = clause.parts;
+      const template = Concept.fromParts(parts);
+
+      switch (directive?.key) {
+        case QueryDirective.Matches:
+          (isGuard(template) ? query.guards : query.patterns).push(template);
+          break;
+        case QueryDirective.Not:
+          query.negations.push(template);
+          break;
+        case QueryDirective.Optional:
+          query.optionals.push(template);
+          break;
+        case QueryDirective.Selects:
+          parts.forEach(part => {
+            if (!part.is('VARIABLE') || part.key === '$') {
+              throw new InvalidQueryError({
+                clause,
+                reason: `cannot select ${part.key}`,
+              });
+            }
+
+            query.variables.push(part.key);
+          });
+          break;
+        case QueryDirective.Orders:
+          query.orders.push(parseOrder(clause, parts));
+          break;
+        default:
+          throw new InvalidQueryError({ clause, reason: 'unknown directive' });
+      }
+    });
+
+    query.validate(clauses);
+
+    return query;
+  }
+
+  run(store: ConceptStore): Bindings[] {
+    let results = findJoinedMatches(store, this.patterns);
+
+    this.optionals.forEach(pattern => {
+      results = results.flatMap<Bindings>(bindings => {
+        const matches = findMatches(store, pattern, bindings);
+
+        return matches.length
+          ? matches.map(match => match.bindings)
+          : [bindings];
+      });
+    });
+
+    results = results.filter(
+      bindings =>
+        this.guards.every(guard => testGuard(guard, bindings)) &&
+        this.negations.every(pattern =>
+          isGuard(pattern)
+            ? !testGuard(pattern, bindings)
+            : !findMatches(store, pattern, bindings).length,
+        ),
+    );
+
+    if (this.orders.length) {
+      results.sort((a, b) => this.compare(a, b));
+    }
+
+    // Dropping variables can leave results that are the same
+    const uniqueResults = new Map(
+      results.map(bindings => {
+        const selected = this.select(bindings);
+        return [getBindingsKey(selected), selected];
+      }),
+    );
+
+    return Array.from(uniqueResults.values());
+  }
+
+  protected select(bindings: Bindings): Bindings {
+    if (!this.variables.length) {
+      return bindings;
+    }
+
+    return Object.fromEntries(
+      this.variables
+        .filter(variable => bindings[variable])
+        .map(variable => [variable, bindings[variable]]),
+    );
+  }
+
+  /**
+   * Compares results by each order in turn, where results without a value
+   * for the variable come last.
+   */
+  protected compare(a: Bindings, b: Bindings): number {
+    for (const { variable, descending } of this.orders) {
+      const left = a[variable];
+      const right = b[variable];
+
+      if (!left || !right) {
+        if (left !== right) {
+          return left ? -1 : 1;
+        }
+
+        continue;
+      }
+
+      const order = compareConcepts(left, right);
+
+      if (order) {
+        return descending ? -order : order;
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Checks that there's something to match, and that selected and ordered
+   * variables are bound by the query's patterns.
+   */
+  protected validate(clauses: Concept[]) {
+    if (!this.patterns.length) {
+      throw new InvalidQueryError({
+        clause: Concept.fromParts(clauses),
+        reason: `missing ${QueryDirective.Matches}`,
+      });
+    }
+
+    const bound = new Set(
+      [...this.patterns, ...this.optionals].flatMap(getVariables),
+    );
+    const used = [
+      ...this.guards.flatMap(getVariables),
+      ...this.variables,
+      ...this.orders.map(({ variable }) => variable),
+    ];
+    const unbound = used.find(variable => !bound.has(variable));
+
+    if (unbound) {
+      throw new InvalidQueryError({
+        clause: clauses.find(clause =>
+          clause.parts.some(part => part.key === unbound),
+        )!,
+        reason: `${unbound} is not bound by any pattern`,
+      });
+    }
+  }
+}
+
+const parseOrder = (clause: Concept, parts: Concept[]): QueryOrder => {
+  const [variable, direction, ...rest] = parts;
+
+  if (
+    !variable?.is('VARIABLE') ||
+    rest.length ||
+    (direction && direction.key !== 'asc' && direction.key !== 'desc')
+  ) {
+    throw new InvalidQueryError({
+      clause,
+      reason: `expected ${QueryDirective.Orders} $variable [asc|desc]`,
+    });
+  }
+
+  return { variable: variable.key, descending: direction?.key === 'desc' };
+};
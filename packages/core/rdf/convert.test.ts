@@ -0,0 +1,226 @@
+import { describe, test, expect } from 'bun:test';
+import { exportRdf, fromTriples, importRdf, toTriples } from './convert';
+import { parseConcepts } from '../lang/parse';
+import { ConceptStore } from '../store';
+import { getTripleKey } from './terms';
+
+const options = { prefixes: { foaf: 'http://xmlns.com/foaf/0.1/' } };
+
+const concepts = parseConcepts(`
+  john foaf:knows mary
+  [john foaf:knows mary] since <<2000>>
+  john foaf:name <<John "Jack" Smith>>
+  john {born 1990-05-17, height 1.85, active true, motto <<less \\>> more>>}
+  http://example.org/paris is-a city
+  john likes
+  [: tea coffee] go-well-together
+  <<hello world>>
+  a b c d
+`);
+
+const getKeys = (concepts: { key: string }[]) =>
+  concepts.map(concept => concept.key);
+
+describe('toTriples', () => {
+  test('writes three-part concepts as triples', () => {
+    expect(
+      toTriples(parseConcepts('john foaf:knows <<mary>>'), options).map(
+        getTripleKey,
+      ),
+    ).toEqual([
+      '<urn:coeng:atom:john> <http://xmlns.com/foaf/0.1/knows> "mary"',
+    ]);
+  });
+
+  test('writes nested triples as quoted triples', () => {
+    expect(
+      toTriples(parseConcepts('[john knows mary] since 2000'), {
+        base: 'http://example.org/',
+      }).map(getTripleKey),
+    ).toEqual([
+      '<< <http://example.org/john> <http://example.org/knows> <http://example.org/mary> >> <http://example.org/since> "2000"^^<http://www.w3.org/2001/XMLSchema#integer>',
+    ]);
+  });
+
+  test('writes typed literals', () => {
+    expect(
+      toTriples(
+        parseConcepts('x is {42, 1.5, 2000-01-31, true, <<\\>\\>>>}'),
+      ).map(triple => getTripleKey(triple).split(' ').slice(2).join(' ')),
+    ).toEqual([
+      '"42"^^<http://www.w3.org/2001/XMLSchema#integer>',
+      '"1.5"^^<http://www.w3.org/2001/XMLSchema#decimal>',
+      '"2000-01-31"^^<http://www.w3.org/2001/XMLSchema#date>',
+      '"true"^^<http://www.w3.org/2001/XMLSchema#boolean>',
+      '">>"',
+    ]);
+  });
+
+  test('reifies concepts that are not triples', () => {
+    expect(exportRdf(parseConcepts('john likes'), 'turtle')).toBe(
+      [
+        '@prefix coeng: <urn:coeng:vocab#> .',
+        '@prefix rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#> .',
+        '',
+        '_:c1 a coeng:Compound, coeng:Concept ;',
+        '    rdf:_1 <urn:coeng:atom:john> ;',
+        '    rdf:_2 <urn:coeng:atom:likes> .',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('does not reuse blank nodes of atoms', () => {
+    expect(toTriples(parseConcepts('_:c1 likes')).map(getTripleKey)).toContain(
+      '_:c2 <http://www.w3.org/1999/02/22-rdf-syntax-ns#_1> _:c1',
+    );
+  });
+});
+
+describe('fromTriples', () => {
+  test('reads triples as three-part concepts', () => {
+    expect(
+      getKeys(
+        fromTriples(toTriples(parseConcepts('a b c\na b c')), {
+          prefixes: { ex: 'urn:coeng:vocab#' },
+        }),
+      ),
+    ).toEqual(['a b c']);
+  });
+
+  test('rejects reified concepts that are part of themselves', () => {
+    expect(() =>
+      importRdf(
+        `
+          _:a a <urn:coeng:vocab#Compound>, <urn:coeng:vocab#Concept> ;
+            <http://www.w3.org/1999/02/22-rdf-syntax-ns#_1> _:a .
+        `,
+        'turtle',
+      ),
+    ).toThrow('Invalid RDF: _:a is reified as a part of itself');
+  });
+});
+
+describe('exportRdf', () => {
+  test.each(['ntriples', 'turtle', 'jsonld'] as const)(
+    'round-trips concepts through %s',
+    format => {
+      const source = exportRdf(new ConceptStore(concepts), format, options);
+
+      expect(getKeys(importRdf(source, format, options)).sort()).toEqual(
+        getKeys(concepts).sort(),
+      );
+    },
+  );
+
+  test('writes N-Triples', () => {
+    expect(
+      exportRdf(
+        parseConcepts('john foaf:name <<J "J" S>>'),
+        'ntriples',
+        options,
+      ),
+    ).toBe(
+      '<urn:coeng:atom:john> <http://xmlns.com/foaf/0.1/name> "J \\"J\\" S" .\n',
+    );
+  });
+
+  test('writes JSON-LD', () => {
+    expect(
+      JSON.parse(
+        exportRdf(parseConcepts('john foaf:knows <<mary>>'), 'jsonld', options),
+      ),
+    ).toEqual({
+      '@context': { foaf: 'http://xmlns.com/foaf/0.1/' },
+      '@graph': [
+        {
+          '@id': 'urn:coeng:atom:john',
+          'foaf:knows': [{ '@value': 'mary' }],
+        },
+      ],
+    });
+  });
+});
+
+describe('doc comments', () => {
+  const documented = parseConcepts(`
+    /** Friends */
+    john foaf:knows mary
+    /** Someone */
+    john
+    /** Greeting */
+    <<hello>>
+  `);
+
+  test('writes doc comments as rdfs:comment', () => {
+    expect(exportRdf(documented, 'turtle', options)).toBe(
+      [
+        '@prefix coeng: <urn:coeng:vocab#> .',
+        '@prefix foaf: <http://xmlns.com/foaf/0.1/> .',
+        '@prefix rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#> .',
+        '@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .',
+        '',
+        '<urn:coeng:atom:john> foaf:knows <urn:coeng:atom:mary> ;',
+        '    a coeng:Concept ;',
+        '    rdfs:comment "Someone" .',
+        '<< <urn:coeng:atom:john> foaf:knows <urn:coeng:atom:mary> >> rdfs:comment "Friends" .',
+        '_:c1 a coeng:Compound, coeng:Concept ;',
+        '    rdf:_1 "hello" ;',
+        '    rdfs:comment "Greeting" .',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test.each(['ntriples', 'turtle', 'jsonld'] as const)(
+    'round-trips doc comments through %s',
+    format => {
+      const source = exportRdf(documented, format, options);
+
+      expect(
+        importRdf(source, format, options)
+          .map(({ key, doc }) => [key, doc])
+          .sort(),
+      ).toEqual(documented.map(({ key, doc }) => [key, doc]).sort());
+    },
+  );
+
+  test('reads comments on anything else as facts', () => {
+    expect(
+      getKeys(
+        importRdf(
+          '<urn:coeng:atom:tea> <http://www.w3.org/2000/01/rdf-schema#comment> "A drink" .',
+          'ntriples',
+        ),
+      ),
+    ).toEqual(['tea http://www.w3.org/2000/01/rdf-schema#comment <<A drink>>']);
+  });
+});
+
+describe('importRdf', () => {
+  test('reads IRIs as atoms', () => {
+    expect(
+      getKeys(
+        importRdf(
+          `
+            @prefix foaf: <http://xmlns.com/foaf/0.1/> .
+            @prefix ex: <http://example.org/> .
+
+            ex:john foaf:knows ex:mary, <urn:coeng:atom:caf%C3%A9> ;
+              foaf:age 42 .
+          `,
+          'turtle',
+          options,
+        ),
+      ),
+    ).toEqual([
+      'http://example.org/john foaf:knows http://example.org/mary',
+      'http://example.org/john foaf:knows café',
+      'http://example.org/john foaf:age 42',
+    ]);
+  });
+
+  test('rejects invalid JSON', () => {
+    expect(() => importRdf('{', 'jsonld')).toThrow('Invalid JSON-LD');
+  });
+});
@@ -0,0 +1,546 @@
+import { Concept } from '../concept';
+import { RdfSyntaxError } from '../errors';
+import { escapeString } from '../literals';
+import { parseJsonLd, writeJsonLd } from './jsonld';
+import { parseNTriples, writeNTriples } from './ntriples';
+import {
+  Literal,
+  RDF,
+  RDFS,
+  RDFS_COMMENT,
+  RDF_TYPE,
+  Term,
+  Triple,
+  XSD,
+  blankNode,
+  getTermKey,
+  literal,
+  namedNode,
+  quotedTriple,
+} from './terms';
+import { parseTurtle, writeTurtle } from './turtle';
+
+export type RdfFormat = 'ntriples' | 'turtle' | 'jsonld';
+
+export type RdfOptions = {
+  /**
+   * Namespaces of atoms written `prefix:name`, such as
+   * `{ foaf: 'http://xmlns.com/foaf/0.1/' }` for `foaf:knows`
+   */
+  prefixes?: Record<string, string>;
+  /** The namespace of atoms that aren't IRIs themselves */
+  base?: string;
+};
+
+export const DEFAULT_BASE = 'urn:coeng:atom:';
+
+/** The vocabulary of reified concepts */
+export const COENG = 'urn:coeng:vocab#';
+
+export const COENG_CONCEPT = `${COENG}Concept`;
+export const COENG_COMPOUND = `${COENG}Compound`;
+export const COENG_SORTED_SET = `${COENG}SortedSet`;
+
+/**
+ * Converts concepts to triples, and back with `fromTriples`.
+ *
+ * Atoms are IRIs: `foaf:knows` is expanded when `foaf` is one of the prefixes,
+ * atoms that are IRIs already such as `http://example.org/john` are kept, and
+ * other atoms are appended to the base. `<<...>>` strings are literals, as are
+ * numbers, dates and booleans, typed `xsd:integer`, `xsd:decimal`, `xsd:date`,
+ * `xsd:dateTime` and `xsd:boolean`. `_:...` atoms are blank nodes.
+ *
+ * Three-part concepts are triples, and three-part concepts nested in them are
+ * quoted triples, so that `[john knows mary] since 2000` is written
+ * `<< :john :knows :mary >> :since 2000`.
+ *
+ * Other concepts are reified as blank nodes typed `coeng:Compound` (or
+ * `coeng:SortedSet`), listing their parts with `rdf:_1`, `rdf:_2` and so on.
+ * So are three-part concepts whose subject is a literal or whose predicate
+ * isn't an IRI, since triples can't have those. Reified concepts and atoms
+ * that are in the store rather than parts of other concepts are also typed
+ * `coeng:Concept`, so `john likes` is written
+ *
+ *   _:c1 a coeng:Concept, coeng:Compound; rdf:_1 :john; rdf:_2 :likes.
+ *
+ * The doc comment of a concept is an `rdfs:comment` of its triple, quoted, or
+ * of its node, and is read back as the doc of the concept it describes, so
+ * long as that concept is among those read.
+ *
+ * Literals are read back as the typed literals they'd be written as, and as
+ * strings otherwise, losing their language and datatype.
+ */
+export const toTriples = (
+  concepts: Iterable<Concept>,
+  options: RdfOptions = {},
+): Triple[] => new TripleWriter(concepts, options).write();
+
+export const fromTriples = (
+  triples: Triple[],
+  options: RdfOptions = {},
+): Concept[] => new TripleReader(triples, options).read();
+
+export const exportRdf = (
+  concepts: Iterable<Concept>,
+  format: RdfFormat,
+  options: RdfOptions = {},
+): string => {
+  const triples = toTriples(concepts, options);
+  const prefixes = getPrefixes(options);
+
+  switch (format) {
+    case 'ntriples':
+      return writeNTriples(triples);
+    case 'turtle':
+      return writeTurtle(triples, prefixes);
+    case 'jsonld':
+      return `${JSON.stringify(writeJsonLd(triples, prefixes), null, 2)}\n`;
+  }
+};
+
+export const importRdf = (
+  source: string,
+  format: RdfFormat,
+  options: RdfOptions = {},
+): Concept[] => {
+  switch (format) {
+    case 'ntriples':
+      return fromTriples(parseNTriples(source), options);
+    case 'turtle':
+      return fromTriples(parseTurtle(source), options);
+    case 'jsonld':
+      return fromTriples(parseJsonLd(parseJson(source)), options);
+  }
+};
+
+const parseJson = (source: string) => {
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new RdfSyntaxError({
+      format: 'JSON-LD',
+      reason: (error as Error).message,
+    });
+  }
+};
+
+/**
+ * The prefixes written in documents, including those of the vocabularies of
+ * reified concepts.
+ */
+const getPrefixes = (options: RdfOptions): Record<string, string> => ({
+  rdf: RDF,
+  rdfs: RDFS,
+  coeng: COENG,
+  ...options.prefixes,
+});
+
+class TripleWriter {
+  concepts: Concept[];
+  prefixes: Record<string, string>;
+  base: string;
+
+  protected triples: Triple[] = [];
+  protected reified = new Map<string, Term>();
+  /** Blank nodes of atoms, which reified concepts mustn't reuse */
+  protected blankNodes = new Set<string>();
+  protected nextBlankNode = 1;
+
+  constructor(concepts: Iterable<Concept>, options: RdfOptions) {
+    this.concepts = Array.from(concepts);
+    this.prefixes = options.prefixes ?? {};
+    this.base = options.base ?? DEFAULT_BASE;
+  }
+
+  write(): Triple[] {
+    this.concepts.forEach(concept => this.collectBlankNodes(concept));
+
+    this.concepts.forEach(concept => {
+      const subject = this.writeConcept(concept);
+
+      if (concept.doc !== undefined) {
+        this.triples.push({
+          subject,
+          predicate: namedNode(RDFS_COMMENT),
+          object: literal(concept.doc),
+        });
+      }
+    });
+
+    return this.triples;
+  }
+
+  /**
+   * Writes a concept as a triple or typed node, returning the term that
+   * describes it.
+   */
+  protected writeConcept(concept: Concept): Term {
+    const triple = this.toTriple(concept);
+
+    if (triple) {
+      this.triples.push(triple);
+      return quotedTriple(triple);
+    }
+
+    const term = concept.parts.length
+      ? this.reify(concept)
+      : this.toAtomTerm(concept);
+    // Literals can't be subjects, so they're reified as a single part
+    const subject =
+      term.termType === 'Literal' ? this.reify(concept, [concept]) : term;
+
+    this.triples.push({
+      subject,
+      predicate: namedNode(RDF_TYPE),
+      object: namedNode(COENG_CONCEPT),
+    });
+
+    return subject;
+  }
+
+  protected toTerm(concept: Concept): Term {
+    if (!concept.parts.length) {
+      return this.toAtomTerm(concept);
+    }
+
+    const triple = this.toTriple(concept);
+
+    return triple ? quotedTriple(triple) : this.reify(concept);
+  }
+
+  protected toTriple(concept: Concept): Triple | null {
+    if (concept.size !== 3 || concept.is('SORTED_SET')) {
+      return null;
+    }
+
+    const [subject, predicate, object] = concept.parts.map(part =>
+      this.toTerm(part),
+    );
+
+    if (subject.termType === 'Literal' || predicate.termType !== 'NamedNode') {
+      return null;
+    }
+
+    return { subject, predicate, object };
+  }
+
+  protected toAtomTerm(atom: Concept): Term {
+    const { key } = atom;
+
+    if (atom.is('STRING')) {
+      return literal(atom.string!);
+    }
+
+    const datatype = getDatatype(atom);
+
+    if (datatype) {
+      return literal(key, { datatype });
+    }
+
+    if (key.startsWith('_:')) {
+      return blankNode(key.slice(2));
+    }
+
+    const [, prefix, name] = /^([^:]*):(.*)$/s.exec(key) ?? [];
+
+    if (prefix !== undefined && this.prefixes[prefix] !== undefined) {
+      return namedNode(`${this.prefixes[prefix]}${name}`);
+    }
+
+    if (IRI_PATTERN.test(key)) {
+      return namedNode(key);
+    }
+
+    return namedNode(`${this.base}${encodeURIComponent(key)}`);
+  }
+
+  /**
+   * Writes the parts of a concept as those of a blank node, once however many
+   * times the concept is used.
+   */
+  protected reify(concept: Concept, parts = concept.parts): Term {
+    const existing = this.reified.get(concept.key);
+
+    if (existing) {
+      return existing;
+    }
+
+    const node = this.createBlankNode();
+
+    this.reified.set(concept.key, node);
+    this.triples.push({
+      subject: node,
+      predicate: namedNode(RDF_TYPE),
+      object: namedNode(
+        concept.is('SORTED_SET') ? COENG_SORTED_SET : COENG_COMPOUND,
+      ),
+    });
+
+    parts.forEach((part, index) => {
+      this.triples.push({
+        subject: node,
+        predicate: namedNode(`${RDF}_${index + 1}`),
+        object: this.toTerm(part),
+      });
+    });
+
+    return node;
+  }
+
+  protected createBlankNode(): Term {
+    let label: string;
+
+    do {
+      label = `c${this.nextBlankNode++}`;
+    } while (this.blankNodes.has(label));
+
+    return blankNode(label);
+  }
+
+  protected collectBlankNodes(concept: Concept) {
+    if (concept.parts.length) {
+      concept.parts.forEach(part => this.collectBlankNodes(part));
+    } else if (concept.key.startsWith('_:')) {
+      this.blankNodes.add(concept.key.slice(2));
+    }
+  }
+}
+
+class TripleReader {
+  triples: Triple[];
+  prefixes: [string, string][];
+  base: string;
+
+  /** The parts of reified concepts, by the key of their node */
+  protected reifications = new Map<
+    string,
+    { sorted: boolean; parts: Term[] }
+  >();
+  protected reified = new Map<string, Concept | null>();
+
+  constructor(triples: Triple[], options: RdfOptions) {
+    this.triples = triples;
+    // Longer namespaces first, so that the most specific one is used
+    this.prefixes = Object.entries(options.prefixes ?? {}).sort(
+      ([, a], [, b]) => b.length - a.length,
+    );
+    this.base = options.base ?? DEFAULT_BASE;
+  }
+
+  read(): Concept[] {
+    this.collectReifications();
+
+    const concepts = new Map<string, Concept>();
+    const docs: (Triple & { object: Literal })[] = [];
+
+    this.triples.forEach(triple => {
+      if (this.isReification(triple)) {
+        return;
+      }
+
+      if (isDoc(triple)) {
+        docs.push(triple);
+        return;
+      }
+
+      const concept = isTypedAs(triple, COENG_CONCEPT)
+        ? this.toConcept(triple.subject)
+        : this.fromTriple(triple);
+
+      concepts.set(concept.key, concept);
+    });
+
+    // Comments on anything other than the concepts read are facts like others
+    docs.forEach(triple => {
+      const concept = concepts.get(this.toConcept(triple.subject).key);
+
+      if (concept) {
+        concept.doc = triple.object.value;
+      } else {
+        const fact = this.fromTriple(triple);
+        concepts.set(fact.key, fact);
+      }
+    });
+
+    return Array.from(concepts.values());
+  }
+
+  protected collectReifications() {
+    this.triples.forEach(triple => {
+      const sorted = isTypedAs(triple, COENG_SORTED_SET);
+
+      if (sorted || isTypedAs(triple, COENG_COMPOUND)) {
+        this.reifications.set(getTermKey(triple.subject), {
+          sorted,
+          parts: [],
+        });
+      }
+    });
+
+    this.triples.forEach(({ subject, predicate, object }) => {
+      const reification = this.reifications.get(getTermKey(subject));
+      const index = getPartIndex(predicate);
+
+      if (reification && index) {
+        reification.parts[index - 1] = object;
+      }
+    });
+  }
+
+  /**
+   * Whether a triple only describes how a concept is reified.
+   */
+  protected isReification(triple: Triple): boolean {
+    if (!this.reifications.has(getTermKey(triple.subject))) {
+      return false;
+    }
+
+    return (
+      isTypedAs(triple, COENG_COMPOUND) ||
+      isTypedAs(triple, COENG_SORTED_SET) ||
+      getPartIndex(triple.predicate) !== null
+    );
+  }
+
+  protected fromTriple({ subject, predicate, object }: Triple): Concept {
+    return Concept.fromParts(
+      [subject, predicate, object].map(term => this.toConcept(term)),
+    );
+  }
+
+  protected toConcept(term: Term): Concept {
+    switch (term.termType) {
+      case 'NamedNode':
+        return new Concept(this.fromIri(term.value));
+      case 'Literal':
+        return fromLiteral(term);
+      case 'Triple':
+        return this.fromTriple(term);
+      case 'BlankNode':
+        return this.fromBlankNode(term.value);
+    }
+  }
+
+  protected fromBlankNode(label: string): Concept {
+    const key = `_:${label}`;
+    const reification = this.reifications.get(key);
+
+    if (!reification) {
+      return new Concept(key);
+    }
+
+    if (this.reified.has(key)) {
+      const concept = this.reified.get(key);
+
+      if (!concept) {
+        throw new RdfSyntaxError({
+          format: 'RDF',
+          reason: `${key} is reified as a part of itself`,
+        });
+      }
+
+      return concept;
+    }
+
+    // Marks the node as being reified, to detect cycles
+    this.reified.set(key, null);
+
+    const parts = Array.from(reification.parts, (part, index) => {
+      if (!part) {
+        throw new RdfSyntaxError({
+          format: 'RDF',
+          reason: `${key} is missing part ${index + 1}`,
+        });
+      }
+
+      return this.toConcept(part);
+    });
+    const concept = Concept.fromParts(parts, reification.sorted);
+
+    this.reified.set(key, concept);
+
+    return concept;
+  }
+
+  protected fromIri(iri: string): string {
+    if (iri.startsWith(this.base)) {
+      try {
+        return decodeURIComponent(iri.slice(this.base.length));
+      } catch (error) {
+        return iri;
+      }
+    }
+
+    for (const [prefix, namespace] of this.prefixes) {
+      const name = iri.slice(namespace.length);
+
+      if (iri.startsWith(namespace) && name && !/[\s,()[\]{}]/.test(name)) {
+        return `${prefix}:${name}`;
+      }
+    }
+
+    return iri;
+  }
+}
+
+/**
+ * Matches atoms that are IRIs, i.e. that start with a scheme. IRIs can't hold
+ * some characters that atoms can, such atoms are appended to the base instead.
+ */
+const IRI_PATTERN = /^[a-z][a-z0-9+.-]*:[^\s<>"{}|\\^`]*$/i;
+
+/**
+ * The datatype of numbers, dates and booleans, which are typed literals.
+ */
+const getDatatype = (atom: Concept): string | null => {
+  if (atom.is('NUMBER')) {
+    return `${XSD}${atom.key.includes('.') ? 'decimal' : 'integer'}`;
+  }
+
+  if (atom.is('DATE')) {
+    return `${XSD}${atom.key.includes('T') ? 'dateTime' : 'date'}`;
+  }
+
+  return atom.is('BOOLEAN') ? `${XSD}boolean` : null;
+};
+
+/**
+ * Reads a literal as a typed literal atom when it's written as one with the
+ * same datatype, and as a string otherwise.
+ */
+const fromLiteral = ({ value, datatype }: Literal): Concept => {
+  const atom = new Concept(value);
+
+  return datatype && getDatatype(atom) === datatype
+    ? atom
+    : new Concept(escapeString(value));
+};
+
+const isTypedAs = ({ predicate, object }: Triple, type: string) =>
+  predicate.termType === 'NamedNode' &&
+  predicate.value === RDF_TYPE &&
+  object.termType === 'NamedNode' &&
+  object.value === type;
+
+/**
+ * Whether a triple is an `rdfs:comment`, which may be the doc of a concept.
+ */
+const isDoc = (triple: Triple): triple is Triple & { object: Literal } =>
+  triple.predicate.termType === 'NamedNode' &&
+  triple.predicate.value === RDFS_COMMENT &&
+  triple.object.termType === 'Literal' &&
+  !triple.object.datatype;
+
+/**
+ * The index of a container membership property like `rdf:_1`, if it is one.
+ */
+const getPartIndex = (predicate: Term): number | null => {
+  if (predicate.termType !== 'NamedNode' || !predicate.value.startsWith(RDF)) {
+    return null;
+  }
+
+  const [, index] =
+    /^_([1-9][0-9]*)$/.exec(predicate.value.slice(RDF.length)) ?? [];
+
+  return index ? Number(index) : null;
+};
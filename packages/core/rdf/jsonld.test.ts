@@ -0,0 +1,69 @@
+import { describe, test, expect } from 'bun:test';
+import { parseJsonLd, writeJsonLd } from './jsonld';
+import { getTripleKey, namedNode, quotedTriple } from './terms';
+
+describe('parseJsonLd', () => {
+  test('expands terms, prefixes and the vocabulary', () => {
+    expect(
+      parseJsonLd({
+        '@context': {
+          '@vocab': 'http://example.org/',
+          foaf: 'http://xmlns.com/foaf/0.1/',
+          knows: { '@id': 'foaf:knows' },
+        },
+        '@id': 'http://example.org/john',
+        '@type': 'foaf:Person',
+        knows: [{ '@id': 'http://example.org/mary' }, { name: 'max' }],
+        age: 42,
+      }).map(getTripleKey),
+    ).toEqual([
+      '<http://example.org/john> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://xmlns.com/foaf/0.1/Person>',
+      '<http://example.org/john> <http://xmlns.com/foaf/0.1/knows> <http://example.org/mary>',
+      '_:genid-0 <http://example.org/name> "max"',
+      '<http://example.org/john> <http://xmlns.com/foaf/0.1/knows> _:genid-0',
+      '<http://example.org/john> <http://example.org/age> "42"^^<http://www.w3.org/2001/XMLSchema#integer>',
+    ]);
+  });
+
+  test('reads value objects and lists', () => {
+    expect(
+      parseJsonLd({
+        '@context': { ex: 'http://example.org/' },
+        '@graph': [
+          {
+            '@id': 'ex:john',
+            'ex:says': { '@value': 'hi', '@language': 'en' },
+            'ex:likes': { '@list': ['tea'] },
+          },
+        ],
+      }).map(getTripleKey),
+    ).toEqual([
+      '<http://example.org/john> <http://example.org/says> "hi"@en',
+      '_:genid-0 <http://www.w3.org/1999/02/22-rdf-syntax-ns#first> "tea"',
+      '_:genid-0 <http://www.w3.org/1999/02/22-rdf-syntax-ns#rest> <http://www.w3.org/1999/02/22-rdf-syntax-ns#nil>',
+      '<http://example.org/john> <http://example.org/likes> _:genid-0',
+    ]);
+  });
+
+  test('reads embedded nodes as quoted triples', () => {
+    const triple = {
+      subject: namedNode('http://a'),
+      predicate: namedNode('http://b'),
+      object: namedNode('http://c'),
+    };
+    const triples = [{ ...triple, subject: quotedTriple(triple) }];
+
+    expect(parseJsonLd(writeJsonLd(triples))).toEqual(triples);
+  });
+
+  test('rejects invalid documents', () => {
+    expect(() => parseJsonLd({ '@context': 'http://example.org/' })).toThrow(
+      'Invalid JSON-LD: cannot load the context http://example.org/',
+    );
+    expect(() =>
+      parseJsonLd({ '@id': { '@id': 'http://a' }, 'http://b': 'c' }),
+    ).toThrow(
+      'Invalid JSON-LD: embedded nodes must have a single property and value',
+    );
+  });
+});
@@ -0,0 +1,411 @@
+import { RdfSyntaxError } from '../errors';
+import {
+  Literal,
+  RDF,
+  RDF_TYPE,
+  Term,
+  Triple,
+  XSD,
+  blankNode,
+  getTermKey,
+  literal,
+  namedNode,
+  quotedTriple,
+} from './terms';
+
+type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+export type JsonLdNode = { [key: string]: JsonValue };
+
+export type JsonLdDocument = JsonLdNode | JsonLdNode[];
+
+type Context = {
+  terms: Map<string, string>;
+  vocab?: string;
+  base?: string;
+};
+
+/**
+ * Writes triples as a JSON-LD document, with a node for each subject and the
+ * prefixes it needs as its context. Quoted triples are embedded nodes, as in
+ * JSON-LD-star.
+ */
+export const writeJsonLd = (
+  triples: Triple[],
+  prefixes: Record<string, string> = {},
+): JsonLdNode => {
+  const usedPrefixes = new Set<string>();
+  const namespaces = Object.entries(prefixes).sort(
+    ([, a], [, b]) => b.length - a.length,
+  );
+
+  const compact = (iri: string): string => {
+    for (const [prefix, namespace] of namespaces) {
+      const name = iri.slice(namespace.length);
+
+      if (iri.startsWith(namespace) && name && !name.startsWith('//')) {
+        usedPrefixes.add(prefix);
+        return `${prefix}:${name}`;
+      }
+    }
+
+    return iri;
+  };
+
+  const writeId = (term: Term): JsonValue => {
+    switch (term.termType) {
+      case 'NamedNode':
+        return compact(term.value);
+      case 'BlankNode':
+        return `_:${term.value}`;
+      case 'Triple':
+        return {
+          '@id': writeId(term.subject),
+          [writeId(term.predicate) as string]: [writeValue(term.object)],
+        };
+      case 'Literal':
+        throw new RdfSyntaxError({
+          format: 'JSON-LD',
+          reason: `literal ${getTermKey(term)} cannot be a subject`,
+        });
+    }
+  };
+
+  const writeValue = (term: Term): JsonValue => {
+    if (term.termType !== 'Literal') {
+      return { '@id': writeId(term) };
+    }
+
+    const value: JsonLdNode = { '@value': term.value };
+
+    if (term.language) {
+      value['@language'] = term.language;
+    } else if (term.datatype) {
+      value['@type'] = compact(term.datatype);
+    }
+
+    return value;
+  };
+
+  const nodes = new Map<string, JsonLdNode>();
+
+  triples.forEach(({ subject, predicate, object }) => {
+    const key = getTermKey(subject);
+    let node = nodes.get(key);
+
+    if (!node) {
+      node = { '@id': writeId(subject) };
+      nodes.set(key, node);
+    }
+
+    const isType =
+      predicate.termType === 'NamedNode' &&
+      predicate.value === RDF_TYPE &&
+      object.termType === 'NamedNode';
+    const property = isType ? '@type' : (writeId(predicate) as string);
+    const values = (node[property] ?? []) as JsonValue[];
+
+    values.push(isType ? writeId(object) : writeValue(object));
+    node[property] = values;
+  });
+
+  const context = Object.fromEntries(
+    namespaces
+      .filter(([prefix]) => usedPrefixes.has(prefix))
+      .sort(([a], [b]) => (a < b ? -1 : 1)),
+  );
+
+  return { '@context': context, '@graph': Array.from(nodes.values()) };
+};
+
+/**
+ * Reads the triples of a JSON-LD document. Contexts can map terms and prefixes
+ * to IRIs and set `@vocab` and `@base`, but can't be loaded from elsewhere.
+ * Named graphs are read as part of the default graph.
+ */
+export const parseJsonLd = (document: JsonLdDocument): Triple[] =>
+  new JsonLdParser().parse(document);
+
+class JsonLdParser {
+  protected triples: Triple[] = [];
+  protected blankNodes = 0;
+
+  parse(document: JsonLdDocument): Triple[] {
+    const context: Context = { terms: new Map() };
+
+    if (Array.isArray(document)) {
+      document.forEach(node => this.parseNode(asNode(node), context));
+    } else if (
+      Object.keys(document).every(key => ['@context', '@graph'].includes(key))
+    ) {
+      // A document holding only a graph isn't a node itself
+      this.parseGraph(
+        document['@graph'] ?? [],
+        this.extendContext(context, document['@context']),
+      );
+    } else {
+      this.parseNode(document, context);
+    }
+
+    return this.triples;
+  }
+
+  protected parseGraph(nodes: JsonValue, context: Context) {
+    toArray(nodes).forEach(node => this.parseNode(asNode(node), context));
+  }
+
+  /**
+   * Reads the triples of a node, returning the term of its subject.
+   */
+  protected parseNode(node: JsonLdNode, parentContext: Context): Term {
+    const context = this.extendContext(parentContext, node['@context']);
+
+    if (node['@graph'] !== undefined) {
+      this.parseGraph(node['@graph'], context);
+    }
+
+    const subject = this.parseId(node['@id'], context);
+
+    toArray(node['@type'] ?? []).forEach(type => {
+      this.triples.push({
+        subject,
+        predicate: namedNode(RDF_TYPE),
+        object: this.expandId(asString(type, '@type'), context, true),
+      });
+    });
+
+    Object.entries(node).forEach(([key, values]) => {
+      if (key.startsWith('@')) {
+        if (key === '@reverse' || key === '@nest') {
+          fail(`${key} is not supported`);
+        }
+
+        return;
+      }
+
+      const predicate = this.expandId(key, context, true);
+
+      toArray(values).forEach(value => {
+        if (value !== null) {
+          this.triples.push({
+            subject,
+            predicate,
+            object: this.parseValue(value, context),
+          });
+        }
+      });
+    });
+
+    return subject;
+  }
+
+  protected parseValue(value: JsonValue, context: Context): Term {
+    if (typeof value === 'string') {
+      return literal(value);
+    }
+
+    if (typeof value === 'number') {
+      return literal(String(value), {
+        datatype: `${XSD}${Number.isInteger(value) ? 'integer' : 'double'}`,
+      });
+    }
+
+    if (typeof value === 'boolean') {
+      return literal(String(value), { datatype: `${XSD}boolean` });
+    }
+
+    const node = asNode(value);
+
+    if ('@value' in node) {
+      return this.parseLiteral(node, context);
+    }
+
+    if ('@list' in node) {
+      return this.parseList(toArray(node['@list']), context);
+    }
+
+    return this.parseNode(node, context);
+  }
+
+  protected parseLiteral(node: JsonLdNode, context: Context): Literal {
+    const value = node['@value'];
+    const language = node['@language'];
+    const type = node['@type'];
+
+    if (value === null || typeof value === 'object') {
+      fail('@value must be a string, number or boolean');
+    }
+
+    return literal(String(value), {
+      language: language ? asString(language, '@language') : undefined,
+      datatype: type
+        ? this.expandIri(asString(type, '@type'), context, true)
+        : undefined,
+    });
+  }
+
+  /**
+   * Reads the items of a list, as a list of `rdf:first` and `rdf:rest`.
+   */
+  protected parseList(items: JsonValue[], context: Context): Term {
+    return items.reduceRight<Term>(
+      (rest, item) => {
+        const node = this.createBlankNode();
+
+        this.triples.push(
+          {
+            subject: node,
+            predicate: namedNode(`${RDF}first`),
+            object: this.parseValue(item, context),
+          },
+          { subject: node, predicate: namedNode(`${RDF}rest`), object: rest },
+        );
+
+        return node;
+      },
+      namedNode(`${RDF}nil`),
+    );
+  }
+
+  /**
+   * Reads the `@id` of a node, which is a quoted triple when it's a node with
+   * a single property and value itself.
+   */
+  protected parseId(id: JsonValue | undefined, context: Context): Term {
+    if (id === undefined) {
+      return this.createBlankNode();
+    }
+
+    if (typeof id === 'string') {
+      return this.expandId(id, context, false);
+    }
+
+    const embedded = asNode(id);
+    const parser = new JsonLdParser();
+
+    parser.blankNodes = this.blankNodes;
+    parser.parseNode(embedded, context);
+    this.blankNodes = parser.blankNodes;
+
+    if (parser.triples.length !== 1) {
+      fail('embedded nodes must have a single property and value');
+    }
+
+    return quotedTriple(parser.triples[0]);
+  }
+
+  protected expandId(id: string, context: Context, vocab: boolean): Term {
+    return id.startsWith('_:')
+      ? blankNode(id.slice(2))
+      : namedNode(this.expandIri(id, context, vocab));
+  }
+
+  protected expandIri(iri: string, context: Context, vocab: boolean): string {
+    const term = context.terms.get(iri);
+
+    if (term !== undefined && vocab) {
+      return term;
+    }
+
+    const separator = iri.indexOf(':');
+
+    if (separator !== -1) {
+      const prefix = context.terms.get(iri.slice(0, separator));
+      const name = iri.slice(separator + 1);
+
+      return prefix !== undefined && !name.startsWith('//')
+        ? `${prefix}${name}`
+        : iri;
+    }
+
+    if (vocab && context.vocab !== undefined) {
+      return `${context.vocab}${iri}`;
+    }
+
+    return context.base ? new URL(iri, context.base).href : iri;
+  }
+
+  protected extendContext(
+    parent: Context,
+    definitions: JsonValue | undefined,
+  ): Context {
+    if (definitions === undefined) {
+      return parent;
+    }
+
+    const context: Context = { ...parent, terms: new Map(parent.terms) };
+
+    toArray(definitions).forEach(definition => {
+      if (definition === null) {
+        context.terms.clear();
+        context.vocab = undefined;
+        return;
+      }
+
+      if (typeof definition === 'string') {
+        fail(`cannot load the context ${definition}`);
+      }
+
+      Object.entries(asNode(definition)).forEach(([key, value]) => {
+        if (key === '@vocab' || key === '@base') {
+          context[key === '@vocab' ? 'vocab' : 'base'] =
+            value === null ? undefined : asString(value, key);
+          return;
+        }
+
+        if (key.startsWith('@')) {
+          return;
+        }
+
+        const iri =
+          value !== null && typeof value === 'object' && !Array.isArray(value)
+            ? value['@id']
+            : value;
+
+        if (iri === null) {
+          context.terms.delete(key);
+        } else {
+          context.terms.set(
+            key,
+            this.expandIri(asString(iri, key), context, true),
+          );
+        }
+      });
+    });
+
+    return context;
+  }
+
+  protected createBlankNode(): Term {
+    return blankNode(`genid-${this.blankNodes++}`);
+  }
+}
+
+const toArray = (value: JsonValue): JsonValue[] =>
+  Array.isArray(value) ? value : [value];
+
+const asNode = (value: JsonValue): JsonLdNode => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return fail(`expected an object, found ${JSON.stringify(value)}`);
+  }
+
+  return value;
+};
+
+const asString = (value: JsonValue | undefined, key: string): string => {
+  if (typeof value !== 'string') {
+    return fail(`${key} must be a string`);
+  }
+
+  return value;
+};
+
+const fail = (reason: string): never => {
+  throw new RdfSyntaxError({ format: 'JSON-LD', reason });
+};
@@ -0,0 +1,58 @@
+import { Literal, Term, Triple } from './terms';
+import { parseTurtle } from './turtle';
+
+/**
+ * Writes triples one per line, with quoted triples as in N-Triples-star.
+ */
+export const writeNTriples = (triples: Triple[]): string =>
+  triples
+    .map(({ subject, predicate, object }) => {
+      const terms = [subject, predicate, object].map(writeTerm);
+      return `${terms.join(' ')} .\n`;
+    })
+    .join('');
+
+/**
+ * Reads N-Triples, which are also Turtle.
+ */
+export const parseNTriples = (source: string): Triple[] =>
+  parseTurtle(source, { format: 'N-Triples' });
+
+export const writeTerm = (term: Term): string => {
+  switch (term.termType) {
+    case 'NamedNode':
+      return writeIri(term.value);
+    case 'BlankNode':
+      return `_:${term.value}`;
+    case 'Literal':
+      return writeLiteral(term, writeIri);
+    case 'Triple':
+      return `<< ${[term.subject, term.predicate, term.object].map(writeTerm).join(' ')} >>`;
+  }
+};
+
+export const writeIri = (iri: string): string =>
+  `<${iri.replace(/[\x00-\x20<>"{}|^`\\]/g, escapeChar)}>`;
+
+export const writeLiteral = (
+  { value, language, datatype }: Literal,
+  writeDatatype: (iri: string) => string,
+): string => {
+  const string = `"${value.replace(/["\\\n\r]/g, char => STRING_ESCAPES[char])}"`;
+
+  if (language) {
+    return `${string}@${language}`;
+  }
+
+  return datatype ? `${string}^^${writeDatatype(datatype)}` : string;
+};
+
+const STRING_ESCAPES: Record<string, string> = {
+  '"': '\\"',
+  '\\': '\\\\',
+  '\n': '\\n',
+  '\r': '\\r',
+};
+
+const escapeChar = (char: string) =>
+  `\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`;
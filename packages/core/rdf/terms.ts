@@ -0,0 +1,99 @@
+export type NamedNode = {
+  termType: 'NamedNode';
+  value: string;
+};
+
+export type BlankNode = {
+  termType: 'BlankNode';
+  value: string;
+};
+
+export type Literal = {
+  termType: 'Literal';
+  value: string;
+  /** Either a language or a datatype other than `xsd:string` */
+  language?: string;
+  datatype?: string;
+};
+
+/**
+ * A triple used as a term, as in RDF-star: `<< :a :b :c >> :d :e`.
+ */
+export type QuotedTriple = {
+  termType: 'Triple';
+  subject: Term;
+  predicate: Term;
+  object: Term;
+};
+
+export type Term = NamedNode | BlankNode | Literal | QuotedTriple;
+
+export type Triple = {
+  subject: Term;
+  predicate: Term;
+  object: Term;
+};
+
+export const RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+export const RDFS = 'http://www.w3.org/2000/01/rdf-schema#';
+export const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+export const RDF_TYPE = `${RDF}type`;
+export const RDF_VALUE = `${RDF}value`;
+export const RDFS_COMMENT = `${RDFS}comment`;
+export const XSD_STRING = `${XSD}string`;
+
+export const namedNode = (value: string): NamedNode => ({
+  termType: 'NamedNode',
+  value,
+});
+
+export const blankNode = (value: string): BlankNode => ({
+  termType: 'BlankNode',
+  value,
+});
+
+export const literal = (
+  value: string,
+  options: { language?: string; datatype?: string } = {},
+): Literal => {
+  const term: Literal = { termType: 'Literal', value };
+
+  if (options.language) {
+    term.language = options.language.toLowerCase();
+  } else if (options.datatype && options.datatype !== XSD_STRING) {
+    term.datatype = options.datatype;
+  }
+
+  return term;
+};
+
+export const quotedTriple = ({
+  subject,
+  predicate,
+  object,
+}: Triple): QuotedTriple => ({
+  termType: 'Triple',
+  subject,
+  predicate,
+  object,
+});
+
+/**
+ * Identifies a term, to tell which triples share one.
+ */
+export const getTermKey = (term: Term): string => {
+  switch (term.termType) {
+    case 'NamedNode':
+      return `<${term.value}>`;
+    case 'BlankNode':
+      return `_:${term.value}`;
+    case 'Literal':
+      return `${JSON.stringify(term.value)}${term.language ? `@${term.language}` : term.datatype ? `^^<${term.datatype}>` : ''}`;
+    case 'Triple':
+      return `<< ${getTripleKey(term)} >>`;
+  }
+};
+
+export const getTripleKey = ({ subject, predicate, object }: Triple): string =>
+  [subject, predicate, object].map(getTermKey).join(' ');
@@ -0,0 +1,119 @@
+import { describe, test, expect } from 'bun:test';
+import { parseTurtle, writeTurtle } from './turtle';
+import { parseNTriples } from './ntriples';
+import { getTripleKey, literal, namedNode } from './terms';
+
+const parse = (source: string) => parseTurtle(source).map(getTripleKey);
+
+describe('parseTurtle', () => {
+  test('reads prefixes, predicate lists and object lists', () => {
+    expect(
+      parse(`
+        @prefix ex: <http://example.org/> .
+        PREFIX foaf: <http://xmlns.com/foaf/0.1/>
+
+        ex:john a foaf:Person ;
+          foaf:knows ex:mary, ex:max .
+      `),
+    ).toEqual([
+      '<http://example.org/john> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://xmlns.com/foaf/0.1/Person>',
+      '<http://example.org/john> <http://xmlns.com/foaf/0.1/knows> <http://example.org/mary>',
+      '<http://example.org/john> <http://xmlns.com/foaf/0.1/knows> <http://example.org/max>',
+    ]);
+  });
+
+  test('reads literals', () => {
+    expect(
+      parse(`
+        @base <http://example.org/> .
+        <john> <says> "hi"@EN, 'it\\'s', """two
+lines""", 42, -1.5, 1e3, true, "x"^^<type> .
+      `).map(key => key.split('<http://example.org/says> ')[1]),
+    ).toEqual([
+      '"hi"@en',
+      '"it\'s"',
+      '"two\\nlines"',
+      '"42"^^<http://www.w3.org/2001/XMLSchema#integer>',
+      '"-1.5"^^<http://www.w3.org/2001/XMLSchema#decimal>',
+      '"1e3"^^<http://www.w3.org/2001/XMLSchema#double>',
+      '"true"^^<http://www.w3.org/2001/XMLSchema#boolean>',
+      '"x"^^<http://example.org/type>',
+    ]);
+  });
+
+  test('reads blank node property lists and collections', () => {
+    expect(
+      parse(`
+        @prefix : <http://example.org/> .
+        :john :knows [ :name "mary" ] ; :likes ( :tea ) .
+      `),
+    ).toEqual([
+      '_:genid-0 <http://example.org/name> "mary"',
+      '<http://example.org/john> <http://example.org/knows> _:genid-0',
+      '_:genid-1 <http://www.w3.org/1999/02/22-rdf-syntax-ns#first> <http://example.org/tea>',
+      '_:genid-1 <http://www.w3.org/1999/02/22-rdf-syntax-ns#rest> <http://www.w3.org/1999/02/22-rdf-syntax-ns#nil>',
+      '<http://example.org/john> <http://example.org/likes> _:genid-1',
+    ]);
+  });
+
+  test('reads quoted triples', () => {
+    expect(
+      parse(`
+        @prefix : <http://example.org/> .
+        << :john :knows :mary >> :since 2000 .
+      `),
+    ).toEqual([
+      '<< <http://example.org/john> <http://example.org/knows> <http://example.org/mary> >> <http://example.org/since> "2000"^^<http://www.w3.org/2001/XMLSchema#integer>',
+    ]);
+  });
+
+  test('reports the line of syntax errors', () => {
+    expect(() =>
+      parseTurtle('@prefix ex: <http://example.org/> .\n\nex:a ex:b'),
+    ).toThrow('Invalid Turtle on line 3: expected an IRI, found EOF');
+    expect(() => parseTurtle('foo:a <b> <c> .')).toThrow(
+      'Invalid Turtle on line 1: undefined prefix foo',
+    );
+  });
+});
+
+describe('parseNTriples', () => {
+  test('reads N-Triples', () => {
+    expect(
+      parseNTriples(
+        '<http://a> <http://b> "\\u00E9" .\n_:x <http://b> <http://c> .\n',
+      ).map(getTripleKey),
+    ).toEqual(['<http://a> <http://b> "é"', '_:x <http://b> <http://c>']);
+  });
+});
+
+describe('writeTurtle', () => {
+  test('groups triples by subject and predicate', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map(name =>
+      namedNode(`http://example.org/${name}`),
+    );
+
+    expect(
+      writeTurtle(
+        [
+          { subject: a, predicate: b, object: c },
+          {
+            subject: a,
+            predicate: b,
+            object: literal('d', { language: 'en' }),
+          },
+          { subject: a, predicate: c, object: a },
+        ],
+        { ex: 'http://example.org/', foaf: 'http://xmlns.com/foaf/0.1/' },
+      ),
+    ).toBe(
+      [
+        '@prefix ex: <http://example.org/> .',
+        '',
+        'ex:a ex:b ex:c, "d"@en ;',
+        '    ex:c ex:a .',
+        '',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,516 @@
+import { RdfSyntaxError } from '../errors';
+import { writeIri, writeLiteral, writeTerm } from './ntriples';
+import {
+  RDF,
+  RDF_TYPE,
+  Term,
+  Triple,
+  XSD,
+  blankNode,
+  getTermKey,
+  literal,
+  namedNode,
+  quotedTriple,
+} from './terms';
+
+export type TurtleParserOptions = {
+  /** The name of the format in errors, for formats that are part of Turtle */
+  format?: string;
+  /** The IRI that relative IRIs are resolved against */
+  base?: string;
+};
+
+type TurtleTokenType =
+  | 'IRI'
+  | 'PNAME'
+  | 'BLANK_NODE'
+  | 'LANGTAG'
+  | 'STRING'
+  | 'INTEGER'
+  | 'DECIMAL'
+  | 'DOUBLE'
+  | 'KEYWORD'
+  | 'PUNCTUATION'
+  | 'EOF';
+
+type TurtleToken = {
+  type: TurtleTokenType;
+  value: string;
+  line: number;
+};
+
+const PN_CHARS = '\\p{L}\\p{N}_\\u00B7\\u0300-\\u036F\\u203F-\\u2040';
+const PN_LOCAL_ESCAPE = "\\\\[_~.!$&'()*+,;=/?#@%-]|%[0-9A-Fa-f]{2}";
+const PN_PREFIX = `\\p{L}(?:[${PN_CHARS}.-]*[${PN_CHARS}-])?`;
+const PN_LOCAL = `(?:[${PN_CHARS}:]|${PN_LOCAL_ESCAPE})(?:(?:[${PN_CHARS}.:-]|${PN_LOCAL_ESCAPE})*(?:[${PN_CHARS}:-]|${PN_LOCAL_ESCAPE}))?`;
+
+const TOKEN_PATTERNS: [TurtleTokenType, RegExp][] = [
+  ['PUNCTUATION', /<<|>>|\^\^|\{\||\|\}|[.;,[\]()]/y],
+  [
+    'IRI',
+    /<((?:[^\x00-\x20<>"{}|^`\\]|\\u[0-9A-Fa-f]{4}|\\U[0-9A-Fa-f]{8})*)>/y,
+  ],
+  [
+    'STRING',
+    /"""((?:"{0,2}(?:[^"\\]|\\.))*)"""|'''((?:'{0,2}(?:[^'\\]|\\.))*)'''/sy,
+  ],
+  ['STRING', /"((?:[^"\\\n\r]|\\.)*)"|'((?:[^'\\\n\r]|\\.)*)'/y],
+  [
+    'BLANK_NODE',
+    new RegExp(`_:([${PN_CHARS}](?:[${PN_CHARS}.-]*[${PN_CHARS}-])?)`, 'uy'),
+  ],
+  ['PNAME', new RegExp(`(${PN_PREFIX})?:(${PN_LOCAL})?`, 'uy')],
+  ['LANGTAG', /@([a-zA-Z]+(?:-[a-zA-Z0-9]+)*)/y],
+  [
+    'DOUBLE',
+    /[+-]?(?:[0-9]+\.[0-9]*[eE][+-]?[0-9]+|\.[0-9]+[eE][+-]?[0-9]+|[0-9]+[eE][+-]?[0-9]+)/y,
+  ],
+  ['DECIMAL', /[+-]?[0-9]*\.[0-9]+/y],
+  ['INTEGER', /[+-]?[0-9]+/y],
+  ['KEYWORD', /[a-zA-Z]+/y],
+];
+
+/**
+ * Reads Turtle, including quoted triples as in Turtle-star.
+ */
+export const parseTurtle = (
+  source: string,
+  options: TurtleParserOptions = {},
+): Triple[] => new TurtleParser(source, options).parse();
+
+/**
+ * Writes triples as Turtle, grouped by subject and predicate, using those of
+ * the prefixes that it needs.
+ */
+export const writeTurtle = (
+  triples: Triple[],
+  prefixes: Record<string, string> = {},
+): string => {
+  const usedPrefixes = new Set<string>();
+  const namespaces = Object.entries(prefixes).sort(
+    ([, a], [, b]) => b.length - a.length,
+  );
+
+  const writeName = (iri: string): string => {
+    for (const [prefix, namespace] of namespaces) {
+      const name = iri.slice(namespace.length);
+
+      if (
+        iri.startsWith(namespace) &&
+        new RegExp(`^(?:${PN_LOCAL})?$`, 'u').test(name)
+      ) {
+        usedPrefixes.add(prefix);
+        return `${prefix}:${name}`;
+      }
+    }
+
+    return writeIri(iri);
+  };
+
+  const write = (term: Term): string => {
+    switch (term.termType) {
+      case 'NamedNode':
+        return writeName(term.value);
+      case 'Literal':
+        return writeLiteral(term, writeName);
+      case 'Triple':
+        return `<< ${[term.subject, term.predicate, term.object].map(write).join(' ')} >>`;
+      default:
+        return writeTerm(term);
+    }
+  };
+
+  const subjects = new Map<string, Map<string, Term[]>>();
+  const terms = new Map<string, Term>();
+
+  triples.forEach(({ subject, predicate, object }) => {
+    const subjectKey = getTermKey(subject);
+    const predicateKey = getTermKey(predicate);
+    let predicates = subjects.get(subjectKey);
+
+    if (!predicates) {
+      predicates = new Map();
+      subjects.set(subjectKey, predicates);
+    }
+
+    terms.set(subjectKey, subject);
+    terms.set(predicateKey, predicate);
+
+    const objects = predicates.get(predicateKey);
+
+    if (objects) {
+      objects.push(object);
+    } else {
+      predicates.set(predicateKey, [object]);
+    }
+  });
+
+  const statements = Array.from(subjects, ([subjectKey, predicates]) => {
+    const lines = Array.from(predicates, ([predicateKey, objects]) => {
+      const predicate = terms.get(predicateKey)!;
+      const verb =
+        predicate.termType === 'NamedNode' && predicate.value === RDF_TYPE
+          ? 'a'
+          : write(predicate);
+
+      return `${verb} ${objects.map(write).join(', ')}`;
+    });
+
+    return `${write(terms.get(subjectKey)!)} ${lines.join(' ;\n    ')} .\n`;
+  });
+
+  const directives = namespaces
+    .filter(([prefix]) => usedPrefixes.has(prefix))
+    .map(
+      ([prefix, namespace]) => `@prefix ${prefix}: ${writeIri(namespace)} .\n`,
+    )
+    .sort();
+
+  return [directives.join(''), statements.join('')].filter(Boolean).join('\n');
+};
+
+class TurtleParser {
+  source: string;
+  format: string;
+  base: string | undefined;
+
+  protected offset = 0;
+  protected line = 1;
+  protected token: TurtleToken;
+  protected prefixes = new Map<string, string>();
+  protected triples: Triple[] = [];
+  protected blankNodes = 0;
+
+  constructor(source: string, options: TurtleParserOptions) {
+    this.source = source;
+    this.format = options.format ?? 'Turtle';
+    this.base = options.base;
+    this.token = this.readToken();
+  }
+
+  parse(): Triple[] {
+    while (this.token.type !== 'EOF') {
+      this.parseStatement();
+    }
+
+    return this.triples;
+  }
+
+  protected parseStatement() {
+    const { type, value } = this.token;
+
+    if (type === 'LANGTAG' && (value === 'prefix' || value === 'base')) {
+      this.next();
+      this.parseDirective(value);
+      this.expect('.');
+      return;
+    }
+
+    if (type === 'KEYWORD' && /^(prefix|base)$/i.test(value)) {
+      this.next();
+      this.parseDirective(value.toLowerCase());
+      return;
+    }
+
+    if (this.is('[')) {
+      const subject = this.parseBlankNodePropertyList();
+
+      if (!this.is('.')) {
+        this.parsePredicateObjectList(subject);
+      }
+    } else {
+      this.parsePredicateObjectList(this.parseSubject());
+    }
+
+    this.expect('.');
+  }
+
+  protected parseDirective(directive: string) {
+    if (directive === 'base') {
+      this.base = this.parseIri();
+      return;
+    }
+
+    const { type, value } = this.next();
+
+    if (type !== 'PNAME' || !value.endsWith(':')) {
+      this.fail(`expected a prefix, found ${value}`);
+    }
+
+    this.prefixes.set(value.slice(0, -1), this.parseIri());
+  }
+
+  protected parsePredicateObjectList(subject: Term) {
+    do {
+      // Semicolons can be repeated, and end the list
+      if (this.is(';') || this.is('.') || this.is(']') || this.is('>>')) {
+        continue;
+      }
+
+      const predicate = this.parseVerb();
+
+      do {
+        this.triples.push({ subject, predicate, object: this.parseObject() });
+      } while (this.accept(','));
+    } while (this.accept(';'));
+  }
+
+  protected parseVerb(): Term {
+    if (this.token.type === 'KEYWORD' && this.token.value === 'a') {
+      this.next();
+      return namedNode(RDF_TYPE);
+    }
+
+    return namedNode(this.parseIri());
+  }
+
+  protected parseSubject(): Term {
+    if (this.accept('(')) {
+      return this.parseCollection();
+    }
+
+    if (this.accept('<<')) {
+      return this.parseQuotedTriple();
+    }
+
+    if (this.token.type === 'BLANK_NODE') {
+      return blankNode(this.next().value);
+    }
+
+    return namedNode(this.parseIri());
+  }
+
+  protected parseObject(): Term {
+    const { type, value } = this.token;
+
+    switch (type) {
+      case 'STRING': {
+        this.next();
+
+        if (this.token.type === 'LANGTAG') {
+          return literal(value, { language: this.next().value });
+        }
+
+        if (this.accept('^^')) {
+          return literal(value, { datatype: this.parseIri() });
+        }
+
+        return literal(value);
+      }
+      case 'INTEGER':
+      case 'DECIMAL':
+      case 'DOUBLE':
+        this.next();
+        return literal(value, { datatype: `${XSD}${type.toLowerCase()}` });
+      case 'KEYWORD':
+        if (value === 'true' || value === 'false') {
+          this.next();
+          return literal(value, { datatype: `${XSD}boolean` });
+        }
+        break;
+      case 'PUNCTUATION':
+        if (value === '[') {
+          return this.parseBlankNodePropertyList();
+        }
+        break;
+    }
+
+    return this.parseSubject();
+  }
+
+  protected parseBlankNodePropertyList(): Term {
+    this.expect('[');
+
+    const node = this.createBlankNode();
+
+    if (!this.accept(']')) {
+      this.parsePredicateObjectList(node);
+      this.expect(']');
+    }
+
+    return node;
+  }
+
+  /**
+   * Reads the items of a collection, as a list of `rdf:first` and `rdf:rest`.
+   */
+  protected parseCollection(): Term {
+    const items: Term[] = [];
+
+    while (!this.accept(')')) {
+      items.push(this.parseObject());
+    }
+
+    return items.reduceRight<Term>(
+      (rest, item) => {
+        const node = this.createBlankNode();
+
+        this.triples.push(
+          { subject: node, predicate: namedNode(`${RDF}first`), object: item },
+          { subject: node, predicate: namedNode(`${RDF}rest`), object: rest },
+        );
+
+        return node;
+      },
+      namedNode(`${RDF}nil`),
+    );
+  }
+
+  protected parseQuotedTriple(): Term {
+    const subject = this.parseSubject();
+    const predicate = this.parseVerb();
+    const object = this.parseObject();
+
+    this.expect('>>');
+
+    return quotedTriple({ subject, predicate, object });
+  }
+
+  protected parseIri(): string {
+    const { type, value } = this.next();
+
+    if (type === 'IRI') {
+      return this.resolve(value);
+    }
+
+    if (type === 'PNAME') {
+      const separator = value.indexOf(':');
+      const prefix = value.slice(0, separator);
+      const namespace = this.prefixes.get(prefix);
+
+      if (namespace === undefined) {
+        this.fail(`undefined prefix ${prefix}`);
+      }
+
+      return `${namespace}${unescapeName(value.slice(separator + 1))}`;
+    }
+
+    this.fail(`expected an IRI, found ${value || type}`);
+  }
+
+  protected resolve(iri: string): string {
+    if (!this.base || /^[a-z][a-z0-9+.-]*:/i.test(iri)) {
+      return iri;
+    }
+
+    return new URL(iri, this.base).href;
+  }
+
+  protected createBlankNode(): Term {
+    return blankNode(`genid-${this.blankNodes++}`);
+  }
+
+  protected is(punctuation: string): boolean {
+    return (
+      this.token.type === 'PUNCTUATION' && this.token.value === punctuation
+    );
+  }
+
+  protected accept(punctuation: string): boolean {
+    if (this.is(punctuation)) {
+      this.next();
+      return true;
+    }
+
+    return false;
+  }
+
+  protected expect(punctuation: string) {
+    if (!this.accept(punctuation)) {
+      this.fail(`expected ${punctuation}, found ${this.token.value || 'EOF'}`);
+    }
+  }
+
+  protected next(): TurtleToken {
+    const token = this.token;
+    this.token = this.readToken();
+    return token;
+  }
+
+  protected readToken(): TurtleToken {
+    this.skipWhitespace();
+
+    if (this.offset >= this.source.length) {
+      return { type: 'EOF', value: '', line: this.line };
+    }
+
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = this.offset;
+
+      const match = pattern.exec(this.source);
+
+      if (!match || !match[0]) {
+        continue;
+      }
+
+      const token = {
+        type,
+        value: getTokenValue(type, match),
+        line: this.line,
+      };
+
+      this.offset += match[0].length;
+      this.line += match[0].split('\n').length - 1;
+
+      if (token.value === '{|' || token.value === '|}') {
+        this.fail('annotations are not supported');
+      }
+
+      return token;
+    }
+
+    this.fail(`unexpected ${this.source[this.offset]}`);
+  }
+
+  protected skipWhitespace() {
+    const pattern = /(?:\s|#[^\n]*)*/y;
+
+    pattern.lastIndex = this.offset;
+
+    const [whitespace] = pattern.exec(this.source)!;
+
+    this.offset += whitespace.length;
+    this.line += whitespace.split('\n').length - 1;
+  }
+
+  protected fail(reason: string): never {
+    throw new RdfSyntaxError({
+      format: this.format,
+      line: this.token?.line ?? this.line,
+      reason,
+    });
+  }
+}
+
+const getTokenValue = (type: TurtleTokenType, match: RegExpExecArray) => {
+  switch (type) {
+    case 'IRI':
+      return unescapeString(match[1]);
+    case 'STRING':
+      return unescapeString(match[1] ?? match[2]);
+    case 'BLANK_NODE':
+    case 'LANGTAG':
+      return match[1];
+    default:
+      return match[0];
+  }
+};
+
+const STRING_ESCAPES: Record<string, string> = {
+  t: '\t',
+  b: '\b',
+  n: '\n',
+  r: '\r',
+  f: '\f',
+};
+
+const unescapeString = (value: string): string =>
+  value.replace(
+    /\\(?:u([0-9A-Fa-f]{4})|U([0-9A-Fa-f]{8})|(.))/gs,
+    (_, short: string, long: string, char: string) =>
+      short || long
+        ? String.fromCodePoint(parseInt(short ?? long, 16))
+        : STRING_ESCAPES[char] ?? char,
+  );
+
+const unescapeName = (name: string): string => name.replace(/\\(.)/g, '$1');
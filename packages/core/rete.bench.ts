@@ -0,0 +1,92 @@
+import { Concept } from './concept';
+import { Bindings, findJoinedMatches, getBindingsKey, unify } from './match';
+import { ReteNetwork } from './rete';
+import { ConceptStore } from './store';
+import { parseConcepts } from './lang/parse';
+
+/**
+ * Compares the network with evaluating every rule against the store for each
+ * concept added, which is what triggers used to do. Run with `bun run bench`,
+ * from the root of the repository or this package.
+ */
+const RULES = 200;
+const CONCEPTS = 2000;
+
+// A deterministic sequence, so that runs are comparable
+let seed = 1;
+const random = (max: number) => {
+  seed = (seed * 16807) % 2147483647;
+  return seed % max;
+};
+
+const concept = (source: string) => parseConcepts(source)[0];
+
+const rules = Array.from({ length: RULES }, (_, index) =>
+  parseConcepts(
+    `[$x rel-${index} $y], [$y rel-${index} $z], [$z kind-of $kind]`,
+  ),
+);
+const concepts = Array.from({ length: CONCEPTS }, (_, index) =>
+  index % 10
+    ? concept(`n${random(100)} rel-${random(RULES)} n${random(100)}`)
+    : concept(`n${random(100)} kind-of k${random(5)}`),
+);
+
+const findMatchesNaively = (store: ConceptStore, added: Concept) =>
+  rules.flatMap(patterns => {
+    const matches = new Map<string, Bindings>();
+
+    patterns.forEach((pattern, index) => {
+      const bindings = unify(pattern, added);
+
+      if (bindings) {
+        findJoinedMatches(
+          store,
+          patterns.filter((_, otherIndex) => otherIndex !== index),
+          bindings,
+        ).forEach(match => matches.set(getBindingsKey(match), match));
+      }
+    });
+
+    return Array.from(matches.values());
+  });
+
+const time = (fn: () => number) => {
+  const start = performance.now();
+  const count = fn();
+
+  return { count, duration: performance.now() - start };
+};
+
+const naive = time(() => {
+  const store = new ConceptStore();
+
+  return concepts.reduce((count, added) => {
+    store.add(added);
+    return count + findMatchesNaively(store, added).length;
+  }, 0);
+});
+
+const rete = time(() => {
+  const store = new ConceptStore();
+  const network = new ReteNetwork(store);
+
+  rules.forEach((patterns, index) => {
+    network.setRule(`rule-${index}`, patterns);
+  });
+
+  return concepts.reduce((count, added) => {
+    store.add(added);
+    return count + network.add(added).length;
+  }, 0);
+});
+
+if (rete.count !== naive.count) {
+  throw new Error(
+    `The network found ${rete.count} matches instead of ${naive.count}`,
+  );
+}
+
+console.log(
+  `Added ${CONCEPTS} concepts with ${RULES} rules: naive ${naive.duration.toFixed(0)}ms, rete ${rete.duration.toFixed(0)}ms (${(naive.duration / rete.duration).toFixed(1)}x faster), ${rete.count} matches`,
+);
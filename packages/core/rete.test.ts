@@ -0,0 +1,200 @@
+import { describe, test, expect } from 'bun:test';
+import { DiscriminationTree, ReteMatch, ReteNetwork } from './rete';
+import { ConceptTag } from './concept';
+import { getBindingsKey } from './match';
+import { ConceptStore } from './store';
+import { parseConcepts } from './lang/parse';
+
+const concept = (source: string) => parseConcepts(source)[0];
+
+const formatMatches = (matches: ReteMatch[]) =>
+  matches.map(({ rule, bindings }) => `${rule}: ${getBindingsKey(bindings)}`);
+
+/**
+ * A store that counts the lookups made in it, to tell how much work matching
+ * takes.
+ */
+class CountingStore extends ConceptStore {
+  lookups = 0;
+
+  get(key: string) {
+    this.lookups++;
+    return super.get(key);
+  }
+
+  findByPart(position: number, key: string) {
+    this.lookups++;
+    return super.findByPart(position, key);
+  }
+
+  findByTag(tag: ConceptTag) {
+    this.lookups++;
+    return super.findByTag(tag);
+  }
+}
+
+const createNetwork = (rules: Record<string, string>) => {
+  const store = new ConceptStore();
+  const network = new ReteNetwork(store);
+
+  Object.entries(rules).forEach(([name, source]) => {
+    network.setRule(name, parseConcepts(source));
+  });
+
+  const add = (source: string) =>
+    parseConcepts(source).flatMap(added => {
+      store.add(added);
+      return formatMatches(network.add(added));
+    });
+
+  const remove = (source: string) =>
+    parseConcepts(source).forEach(removed => {
+      store.remove(removed);
+      network.remove(removed);
+    });
+
+  return { store, network, add, remove };
+};
+
+describe('DiscriminationTree', () => {
+  test('finds the values of every mask a concept fits', () => {
+    const tree = new DiscriminationTree<string>();
+
+    ['$x knows $y', '$x knows mary', '$', '[$x $y] knows mary', '$x likes $y']
+      .map(source => concept(source))
+      .forEach(pattern => tree.insert(pattern.toMask(), pattern.key));
+
+    const find = (source: string) =>
+      Array.from(tree.find(concept(source))).sort();
+
+    expect(find('john knows mary')).toEqual([
+      '$',
+      '$x knows $y',
+      '$x knows mary',
+    ]);
+    expect(find('[a b] knows mary')).toEqual([
+      '$',
+      '$x knows $y',
+      '$x knows mary',
+      '[$x $y] knows mary',
+    ]);
+    expect(find('a [b knows mary]')).toEqual(['$']);
+  });
+
+  test('deletes values', () => {
+    const tree = new DiscriminationTree<string>();
+    const mask = concept('$x knows $y').toMask();
+
+    tree.insert(mask, 'a');
+    tree.insert(mask, 'b');
+
+    expect(tree.delete(mask, 'a')).toBe(true);
+    expect(tree.delete(mask, 'a')).toBe(false);
+    expect(Array.from(tree.find(concept('john knows mary')))).toEqual(['b']);
+
+    tree.delete(mask, 'b');
+
+    expect(tree.find(concept('john knows mary')).size).toBe(0);
+  });
+});
+
+describe('ReteNetwork', () => {
+  const grandparent = '[$x parent-of $y], [$y parent-of $z]';
+
+  test('finds the new matches involving a concept', () => {
+    const { add } = createNetwork({ grandparent });
+
+    expect(add('anne parent-of bob')).toEqual([]);
+    expect(add('bob parent-of {carl, cleo}')).toEqual([
+      'grandparent: $x=anne $y=bob $z=carl',
+      'grandparent: $x=anne $y=bob $z=cleo',
+    ]);
+    expect(add('zoe parent-of anne')).toEqual([
+      'grandparent: $x=zoe $y=anne $z=bob',
+    ]);
+  });
+
+  test('matches a concept against several patterns at once', () => {
+    const { add } = createNetwork({ grandparent });
+
+    expect(add('narcissus parent-of narcissus')).toEqual([
+      'grandparent: $x=narcissus $y=narcissus $z=narcissus',
+    ]);
+  });
+
+  test('returns the matches a rule already has when it is set', () => {
+    const { network, add } = createNetwork({});
+
+    add('anne parent-of bob, bob parent-of carl');
+
+    expect(
+      formatMatches(network.setRule('grandparent', parseConcepts(grandparent))),
+    ).toEqual(['grandparent: $x=anne $y=bob $z=carl']);
+  });
+
+  test('forgets partial matches involving removed concepts', () => {
+    const { add, remove } = createNetwork({ grandparent });
+
+    add('anne parent-of bob');
+    remove('anne parent-of bob');
+
+    expect(add('bob parent-of carl')).toEqual([]);
+
+    add('anne parent-of bob');
+
+    expect(add('bob parent-of cleo')).toEqual([
+      'grandparent: $x=anne $y=bob $z=cleo',
+    ]);
+  });
+
+  test('matches parts of sorted sets in any order', () => {
+    const { add } = createNetwork({
+      siblings: '[siblings [: $x $y]], [$x parent-of $z]',
+    });
+
+    expect(add('siblings [: anne bob]')).toEqual([]);
+    expect(add('bob parent-of carl')).toEqual([
+      'siblings: $x=bob $y=anne $z=carl',
+    ]);
+  });
+
+  test('orders matches by rule', () => {
+    const { network, add } = createNetwork({
+      knows: '$x knows $y',
+      'knows-mary': '$x knows mary',
+    });
+
+    network.setRule('knows', parseConcepts('$who knows $whom'));
+
+    expect(add('john knows mary')).toEqual([
+      'knows: $who=john $whom=mary',
+      'knows-mary: $x=john',
+    ]);
+    expect(network.deleteRule('knows')).toBe(true);
+    expect(add('max knows mary')).toEqual(['knows-mary: $x=max']);
+  });
+
+  test('only looks for matches of the rules a concept concerns', () => {
+    const countLookups = (rules: number) => {
+      const store = new CountingStore();
+      const network = new ReteNetwork(store);
+      const added = concept('anne rel-0 bob');
+
+      for (let index = 0; index < rules; index++) {
+        network.setRule(
+          `rule-${index}`,
+          parseConcepts(`[$x rel-${index} $y], [$y rel-${index} $z]`),
+        );
+      }
+
+      store.add(added);
+      store.lookups = 0;
+      network.add(added);
+
+      return store.lookups;
+    };
+
+    expect(countLookups(1)).toBeGreaterThan(0);
+    expect(countLookups(100)).toBe(countLookups(1));
+  });
+});
@@ -0,0 +1,456 @@
+import { Concept } from './concept';
+import {
+  Bindings,
+  findMatches,
+  getBindingsKey,
+  getVariables,
+  isGuard,
+  testGuard,
+  unifyAll,
+} from './match';
+import { ConceptStore } from './store';
+
+const WILDCARD = '$';
+
+type TreeNode<T> = {
+  children: Map<string, TreeNode<T>>;
+  values: Set<T>;
+};
+
+/**
+ * Indexes values by mask (see `Concept.toMask`), to find the values of every
+ * mask that a concept fits without checking them one by one. Masks are stored
+ * as paths of the symbols of their parts in order, where `$` skips a part of
+ * the concept whatever it's made of.
+ */
+export class DiscriminationTree<T> {
+  protected root: TreeNode<T> = createTreeNode();
+
+  insert(mask: Concept, value: T) {
+    let node = this.root;
+
+    for (const symbol of flatten(mask).symbols) {
+      let child = node.children.get(symbol);
+
+      if (!child) {
+        child = createTreeNode();
+        node.children.set(symbol, child);
+      }
+
+      node = child;
+    }
+
+    node.values.add(value);
+  }
+
+  delete(mask: Concept, value: T): boolean {
+    const path = [this.root];
+
+    for (const symbol of flatten(mask).symbols) {
+      const child = path[path.length - 1].children.get(symbol);
+
+      if (!child) {
+        return false;
+      }
+
+      path.push(child);
+    }
+
+    if (!path[path.length - 1].values.delete(value)) {
+      return false;
+    }
+
+    const { symbols } = flatten(mask);
+
+    // Prune the branches that lead nowhere anymore
+    for (let index = symbols.length; index > 0; index--) {
+      const node = path[index];
+
+      if (node.values.size || node.children.size) {
+        break;
+      }
+
+      path[index - 1].children.delete(symbols[index - 1]);
+    }
+
+    return true;
+  }
+
+  find(concept: Concept): Set<T> {
+    const { symbols, ends } = flatten(concept);
+    const found = new Set<T>();
+
+    const search = (node: TreeNode<T>, index: number) => {
+      if (index === symbols.length) {
+        node.values.forEach(value => found.add(value));
+        return;
+      }
+
+      const child = node.children.get(symbols[index]);
+      const wildcard = node.children.get(WILDCARD);
+
+      if (child) {
+        search(child, index + 1);
+      }
+
+      if (wildcard && wildcard !== child) {
+        search(wildcard, ends[index]);
+      }
+    };
+
+    search(this.root, 0);
+
+    return found;
+  }
+}
+
+/**
+ * A partial match of a rule's patterns, along with the concepts matched.
+ */
+export type Token = {
+  key: string;
+  bindings: Bindings;
+  concepts: Concept[];
+};
+
+export type ReteMatch = {
+  rule: string;
+  bindings: Bindings;
+  concepts: Concept[];
+};
+
+/**
+ * The partial matches of the patterns of a rule up to one of them, indexed by
+ * the bindings of the variables that the next pattern shares with them.
+ */
+class BetaMemory {
+  joinVariables: string[];
+
+  protected tokens = new Map<string, Map<string, Token>>();
+  protected tokensByConcept = new Map<string, Set<Token>>();
+
+  constructor(joinVariables: string[]) {
+    this.joinVariables = joinVariables;
+  }
+
+  /**
+   * Adds a token, returning whether it's new.
+   */
+  add(token: Token): boolean {
+    const joinKey = this.getJoinKey(token.bindings);
+    let tokens = this.tokens.get(joinKey);
+
+    if (!tokens) {
+      tokens = new Map();
+      this.tokens.set(joinKey, tokens);
+    }
+
+    const id = getTokenId(token);
+
+    if (tokens.has(id)) {
+      return false;
+    }
+
+    tokens.set(id, token);
+
+    token.concepts.forEach(concept => {
+      let conceptTokens = this.tokensByConcept.get(concept.key);
+
+      if (!conceptTokens) {
+        conceptTokens = new Set();
+        this.tokensByConcept.set(concept.key, conceptTokens);
+      }
+
+      conceptTokens.add(token);
+    });
+
+    return true;
+  }
+
+  /**
+   * Finds the tokens that agree with bindings of the next pattern.
+   */
+  find(bindings: Bindings): Iterable<Token> {
+    return this.tokens.get(this.getJoinKey(bindings))?.values() ?? [];
+  }
+
+  removeConcept(concept: Concept) {
+    const tokens = this.tokensByConcept.get(concept.key) ?? [];
+
+    Array.from(tokens).forEach(token => {
+      const joinKey = this.getJoinKey(token.bindings);
+      const joinTokens = this.tokens.get(joinKey)!;
+
+      joinTokens.delete(getTokenId(token));
+
+      if (!joinTokens.size) {
+        this.tokens.delete(joinKey);
+      }
+
+      token.concepts.forEach(other => {
+        const otherTokens = this.tokensByConcept.get(other.key);
+
+        otherTokens?.delete(token);
+
+        if (otherTokens?.size === 0) {
+          this.tokensByConcept.delete(other.key);
+        }
+      });
+    });
+  }
+
+  protected getJoinKey(bindings: Bindings): string {
+    return this.joinVariables
+      .map(variable => Concept.wrapKey(bindings[variable]))
+      .join(' ');
+  }
+}
+
+type JoinNode = {
+  rule: Rule;
+  index: number;
+  pattern: Concept;
+};
+
+type Rule = {
+  name: string;
+  /** Rules are matched in the order they're first set */
+  order: number;
+  nodes: JoinNode[];
+  /** Guards checked against complete matches */
+  guards: Concept[];
+  /** Memories of the partial matches of every pattern but the last */
+  memories: BetaMemory[];
+};
+
+const EMPTY_TOKEN: Token = { key: '', bindings: {}, concepts: [] };
+
+/**
+ * Matches the patterns of rules incrementally. The patterns of every rule are
+ * indexed together by mask, so that a change only concerns the rules with a
+ * pattern it fits, and each rule keeps the partial matches of its patterns
+ * between changes, so that only matches involving a change are looked for.
+ *
+ * The store is the source of truth: concepts must be added to it before
+ * they're added to the network, which looks up the rest of a match in it.
+ */
+export class ReteNetwork {
+  store: ConceptStore;
+
+  protected rules = new Map<string, Rule>();
+  protected tree = new DiscriminationTree<JoinNode>();
+  protected nextOrder = 0;
+
+  constructor(store: ConceptStore) {
+    this.store = store;
+  }
+
+  /**
+   * Compiles the patterns of a rule, replacing any it had before, and returns
+   * the matches they already have in the store. Guards among the patterns
+   * such as `$year > 2000` filter complete matches.
+   */
+  setRule(name: string, patterns: Concept[]): ReteMatch[] {
+    const order = this.rules.get(name)?.order ?? this.nextOrder++;
+
+    this.deleteRule(name);
+
+    const rule: Rule = {
+      name,
+      order,
+      nodes: [],
+      guards: patterns.filter(isGuard),
+      memories: [],
+    };
+    const bound = new Set<string>();
+
+    patterns
+      .filter(pattern => !isGuard(pattern))
+      .forEach((pattern, index) => {
+        const node = { rule, index, pattern };
+        const variables = getVariables(pattern);
+
+        if (index > 0) {
+          rule.memories.push(
+            new BetaMemory(variables.filter(variable => bound.has(variable))),
+          );
+        }
+
+        variables.forEach(variable => bound.add(variable));
+        rule.nodes.push(node);
+        this.tree.insert(pattern.toMask(), node);
+      });
+
+    this.rules.set(name, rule);
+
+    const matches = new Map<string, ReteMatch>();
+
+    if (rule.nodes.length) {
+      this.extend(rule, -1, EMPTY_TOKEN, matches);
+    }
+
+    return Array.from(matches.values());
+  }
+
+  deleteRule(name: string): boolean {
+    const rule = this.rules.get(name);
+
+    if (!rule) {
+      return false;
+    }
+
+    rule.nodes.forEach(node => this.tree.delete(node.pattern.toMask(), node));
+    this.rules.delete(name);
+
+    return true;
+  }
+
+  clear() {
+    this.rules.clear();
+    this.tree = new DiscriminationTree();
+  }
+
+  /**
+   * Returns the new matches of rules involving a concept that was just added
+   * to the store, ordered by rule.
+   */
+  add(concept: Concept): ReteMatch[] {
+    const matches = new Map<string, ReteMatch>();
+    const nodes = Array.from(this.tree.find(concept)).sort(
+      (a, b) => a.rule.order - b.rule.order || a.index - b.index,
+    );
+
+    nodes.forEach(({ rule, index, pattern }) => {
+      // A set pattern can match a set in several ways, each joining with
+      // different tokens
+      const tokens = new Set(
+        index
+          ? unifyAll(pattern, concept).flatMap(bindings =>
+              Array.from(rule.memories[index - 1].find(bindings)),
+            )
+          : [EMPTY_TOKEN],
+      );
+
+      tokens.forEach(token => {
+        unifyAll(pattern, concept, token.bindings).forEach(tokenBindings => {
+          this.extend(
+            rule,
+            index,
+            createToken(token, concept, tokenBindings),
+            matches,
+          );
+        });
+      });
+    });
+
+    return Array.from(matches.values());
+  }
+
+  /**
+   * Forgets the partial matches involving a concept removed from the store.
+   */
+  remove(concept: Concept) {
+    const rules = new Set(
+      Array.from(this.tree.find(concept), node => node.rule),
+    );
+
+    rules.forEach(rule => {
+      rule.memories.forEach(memory => memory.removeConcept(concept));
+    });
+  }
+
+  /**
+   * Records a match of the patterns of a rule up to `index`, and looks for the
+   * concepts matching the patterns after it.
+   */
+  protected extend(
+    rule: Rule,
+    index: number,
+    token: Token,
+    matches: Map<string, ReteMatch>,
+  ) {
+    if (index === rule.nodes.length - 1) {
+      if (!rule.guards.every(guard => testGuard(guard, token.bindings))) {
+        return;
+      }
+
+      // The same bindings can come from several tokens, e.g. through `$`
+      matches.set(`${rule.order} ${getBindingsKey(token.bindings)}`, {
+        rule: rule.name,
+        bindings: token.bindings,
+        concepts: token.concepts,
+      });
+      return;
+    }
+
+    if (index >= 0 && !rule.memories[index].add(token)) {
+      return;
+    }
+
+    const { pattern } = rule.nodes[index + 1];
+
+    findMatches(this.store, pattern, token.bindings).forEach(match => {
+      this.extend(
+        rule,
+        index + 1,
+        createToken(token, match.concept, match.bindings),
+        matches,
+      );
+    });
+  }
+}
+
+const createTreeNode = <T>(): TreeNode<T> => ({
+  children: new Map(),
+  values: new Set(),
+});
+
+const createToken = (
+  token: Token,
+  concept: Concept,
+  bindings: Bindings,
+): Token => ({
+  key: token.key ? `${token.key} ${Concept.wrapKey(concept)}` : concept.key,
+  bindings,
+  concepts: [...token.concepts, concept],
+});
+
+/**
+ * Identifies a token among those of a memory. The same concepts can match with
+ * different bindings when a set pattern matches a set in several ways.
+ */
+const getTokenId = (token: Token): string =>
+  `${token.key} | ${getBindingsKey(token.bindings)}`;
+
+/**
+ * Lists the symbols of a concept and its parts in order, along with where the
+ * symbols of each part end. Compounds are marked by their size, so that
+ * `[a b] c` and `a [b c]` are told apart. The parts of sorted sets aren't
+ * listed, since they match in any order.
+ */
+const flatten = (concept: Concept) => {
+  const symbols: string[] = [];
+  const ends: number[] = [];
+
+  const visit = (part: Concept) => {
+    const index = symbols.length;
+
+    if (part.sorted) {
+      symbols.push(`\0:${part.size}`);
+      ends.push(0);
+    } else if (part.parts.length) {
+      symbols.push(`\0${part.size}`);
+      ends.push(0);
+      part.parts.forEach(visit);
+    } else {
+      symbols.push(part.key);
+      ends.push(0);
+    }
+
+    ends[index] = symbols.length;
+  };
+
+  visit(concept);
+
+  return { symbols, ends };
+};
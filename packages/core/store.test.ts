@@ -0,0 +1,114 @@
+import { describe, test, expect } from 'bun:test';
+import { ConceptStore } from './store';
+import { parseConcepts } from './lang/parse';
+
+describe('ConceptStore', () => {
+  test('adds and removes concepts', () => {
+    const store = new ConceptStore();
+    const [concept] = parseConcepts('john knows mary');
+
+    store.add(concept).add(concept);
+
+    expect(store.size).toBe(1);
+    expect(store.has(concept)).toBe(true);
+    expect(store.has('john knows mary')).toBe(true);
+    expect(store.get('john knows mary')).toBe(concept);
+
+    expect(store.remove(concept)).toBe(true);
+    expect(store.remove(concept)).toBe(false);
+    expect(store.size).toBe(0);
+    expect(store.has(concept)).toBe(false);
+  });
+
+  test('iterates over concepts', () => {
+    const store = new ConceptStore(parseConcepts('john knows {mary, max}'));
+
+    expect(Array.from(store).map(c => c.key)).toEqual([
+      'john knows mary',
+      'john knows max',
+    ]);
+  });
+
+  test('indexes concepts by part', () => {
+    const store = new ConceptStore(
+      parseConcepts('john knows {mary, max}, mary likes john'),
+    );
+
+    expect(Array.from(store.findByPart(1, 'knows')).map(c => c.key)).toEqual([
+      'john knows mary',
+      'john knows max',
+    ]);
+    expect(Array.from(store.findByPart(2, 'john')).map(c => c.key)).toEqual([
+      'mary likes john',
+    ]);
+    expect(store.findByPart(3, 'john').size).toBe(0);
+
+    store.remove('mary likes john');
+
+    expect(store.findByPart(2, 'john').size).toBe(0);
+  });
+
+  test('indexes concepts by tag', () => {
+    const store = new ConceptStore(
+      parseConcepts('john knows mary, $who knows mary, ADD foo'),
+    );
+
+    expect(Array.from(store.findByTag('PATTERN')).map(c => c.key)).toEqual([
+      '$who knows mary',
+    ]);
+    expect(Array.from(store.findByTag('COMMAND')).map(c => c.key)).toEqual([
+      'ADD foo',
+    ]);
+    expect(store.findByTag('COMPOUND').size).toBe(3);
+  });
+
+  describe('transactions', () => {
+    test('commits net changes', () => {
+      const store = new ConceptStore(parseConcepts('a b, c d'));
+
+      const changes = store.transaction(() => {
+        parseConcepts('e f, g h').forEach(c => store.add(c));
+        store.remove('a b');
+        store.remove('g h');
+
+        return store.getChanges();
+      });
+
+      expect(changes.map(({ op, concept }) => [op, concept.key])).toEqual([
+        ['add', 'e f'],
+        ['remove', 'a b'],
+      ]);
+      expect(store.inTransaction).toBe(false);
+    });
+
+    test('rolls back when a transaction fails', () => {
+      const store = new ConceptStore(parseConcepts('a b, c d'));
+
+      expect(() =>
+        store.transaction(() => {
+          parseConcepts('e f').forEach(c => store.add(c));
+          store.remove('a b');
+          throw new Error('Oops');
+        }),
+      ).toThrow('Oops');
+
+      expect(Array.from(store).map(c => c.key)).toEqual(['c d', 'a b']);
+      expect(store.findByPart(0, 'e').size).toBe(0);
+      expect(store.findByPart(0, 'a').size).toBe(1);
+    });
+
+    test('refuses nested transactions', () => {
+      const store = new ConceptStore();
+
+      store.begin();
+
+      expect(() => store.begin()).toThrow(
+        'A transaction is already in progress',
+      );
+
+      store.rollback();
+
+      expect(() => store.commit()).toThrow('No transaction is in progress');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { Concept, ConceptTag } from './concept';
+import { NoTransactionError, TransactionInProgressError } from './errors';
+
+const EMPTY_SET: ReadonlySet<Concept> = new Set();
+
+export type StoreChange = {
+  op: 'add' | 'remove';
+  concept: Concept;
+};
+
+/**
+ * An in-memory set of concepts, indexed by key, by the key of each part at
+ * each position, and by tag.
+ */
+export class ConceptStore implements Iterable<Concept> {
+  protected concepts = new Map<string, Concept>();
+  protected partIndex = new Map<number, Map<string, Set<Concept>>>();
+  protected tagIndex = new Map<ConceptTag, Set<Concept>>();
+  /** Changes made since the transaction in progress began, if any */
+  protected journal: StoreChange[] | null = null;
+
+  constructor(concepts: Iterable<Concept> = []) {
+    for (const concept of concepts) {
+      this.add(concept);
+    }
+  }
+
+  get size(): number {
+    return this.concepts.size;
+  }
+
+  [Symbol.iterator](): Iterator<Concept> {
+    return this.concepts.values();
+  }
+
+  has(concept: Concept | string): boolean {
+    return this.concepts.has(
+      typeof concept === 'string' ? concept : concept.key,
+    );
+  }
+
+  get(key: string): Concept | undefined {
+    return this.concepts.get(key);
+  }
+
+  get inTransaction(): boolean {
+    return this.journal !== null;
+  }
+
+  add(concept: Concept) {
+    if (this.concepts.has(concept.key)) {
+      return this;
+    }
+
+    this.index(concept);
+    this.journal?.push({ op: 'add', concept });
+
+    return this;
+  }
+
+  remove(concept: Concept | string): boolean {
+    const stored = this.concepts.get(
+      typeof concept === 'string' ? concept : concept.key,
+    );
+
+    if (!stored) {
+      return false;
+    }
+
+    this.unindex(stored);
+    this.journal?.push({ op: 'remove', concept: stored });
+
+    return true;
+  }
+
+  /**
+   * Applies the changes made by `fn` as a whole: if it throws, the store is
+   * rolled back to how it was before.
+   */
+  transaction<T>(fn: (store: this) => T): T {
+    this.begin();
+
+    try {
+      const result = fn(this);
+      this.commit();
+      return result;
+    } catch (error) {
+      this.rollback();
+      throw error;
+    }
+  }
+
+  begin() {
+    if (this.journal) {
+      throw new TransactionInProgressError();
+    }
+
+    this.journal = [];
+  }
+
+  /**
+   * Ends the transaction in progress, returning its net changes.
+   */
+  commit(): StoreChange[] {
+    const changes = this.getChanges();
+
+    this.journal = null;
+
+    return changes;
+  }
+
+  /**
+   * Undoes the changes of the transaction in progress, and ends it.
+   */
+  rollback() {
+    const journal = this.getJournal();
+
+    this.journal = null;
+
+    journal.reverse().forEach(({ op, concept }) => {
+      if (op === 'add') {
+        this.unindex(concept);
+      } else {
+        this.index(concept);
+      }
+    });
+  }
+
+  /**
+   * The net changes of the transaction in progress, where adding a concept and
+   * removing it again cancel each other out.
+   */
+  getChanges(): StoreChange[] {
+    const changes = new Map<string, StoreChange>();
+
+    this.getJournal().forEach(change => {
+      // Changes to a concept alternate, since only effective ones are recorded
+      if (changes.has(change.concept.key)) {
+        changes.delete(change.concept.key);
+      } else {
+        changes.set(change.concept.key, change);
+      }
+    });
+
+    return Array.from(changes.values());
+  }
+
+  /**
+   * Finds concepts that have a part with the given key at the given position.
+   */
+  findByPart(position: number, key: string): ReadonlySet<Concept> {
+    return this.partIndex.get(position)?.get(key) ?? EMPTY_SET;
+  }
+
+  findByTag(tag: ConceptTag): ReadonlySet<Concept> {
+    return this.tagIndex.get(tag) ?? EMPTY_SET;
+  }
+
+  protected getJournal(): StoreChange[] {
+    if (!this.journal) {
+      throw new NoTransactionError();
+    }
+
+    return this.journal;
+  }
+
+  protected index(concept: Concept) {
+    this.concepts.set(concept.key, concept);
+
+    concept.parts.forEach((part, position) => {
+      let partKeys = this.partIndex.get(position);
+
+      if (!partKeys) {
+        partKeys = new Map();
+        this.partIndex.set(position, partKeys);
+      }
+
+      addToIndex(partKeys, part.key, concept);
+    });
+
+    concept.getTagSet().forEach(tag => {
+      addToIndex(this.tagIndex, tag, concept);
+    });
+  }
+
+  protected unindex(concept: Concept) {
+    this.concepts.delete(concept.key);
+
+    concept.parts.forEach((part, position) => {
+      removeFromIndex(this.partIndex.get(position)!, part.key, concept);
+    });
+
+    concept.getTagSet().forEach(tag => {
+      removeFromIndex(this.tagIndex, tag, concept);
+    });
+  }
+}
+
+const addToIndex = <TKey>(
+  index: Map<TKey, Set<Concept>>,
+  key: TKey,
+  concept: Concept,
+) => {
+  const concepts = index.get(key);
+
+  if (concepts) {
+    concepts.add(concept);
+  } else {
+    index.set(key, new Set([concept]));
+  }
+};
+
+const removeFromIndex = <TKey>(
+  index: Map<TKey, Set<Concept>>,
+  key: TKey,
+  concept: Concept,
+) => {
+  const concepts = index.get(key);
+
+  concepts?.delete(concept);
+
+  if (concepts?.size === 0) {
+    index.delete(key);
+  }
+};
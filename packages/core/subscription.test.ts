@@ -0,0 +1,99 @@
+import { describe, test, expect } from 'bun:test';
+import { Notification, NotificationEvent } from './subscription';
+import { TriggerEngine } from './trigger';
+import { ConceptStore } from './store';
+import { parseConcepts } from './lang/parse';
+
+const parseConcept = (source: string) => parseConcepts(source)[0];
+
+const summarize = ({ type, bindings, concept, trigger }: Notification) => ({
+  type,
+  bindings: Object.fromEntries(
+    Object.entries(bindings).map(([variable, value]) => [variable, value.key]),
+  ),
+  concept: concept.key,
+  trigger: trigger?.key ?? null,
+});
+
+describe('Subscription', () => {
+  test('receives notifications from @notifies clauses', () => {
+    const engine = new TriggerEngine(new ConceptStore());
+    const subscription = engine.subscribe('new-grandparent');
+    const notifications: Notification[] = [];
+
+    subscription.addEventListener('notify', event => {
+      notifications.push(event.notification);
+    });
+
+    engine.add(
+      ...parseConcepts(`
+        grandparent {
+          @matches {[$x parent-of $y], [$y parent-of $z]}
+          @notifies new-grandparent
+        }
+        anne parent-of bob
+        bob parent-of carl
+      `),
+    );
+
+    expect(notifications.map(summarize)).toEqual([
+      {
+        type: 'notify',
+        bindings: { $x: 'anne', $y: 'bob', $z: 'carl' },
+        concept: 'bob parent-of carl',
+        trigger: 'grandparent',
+      },
+    ]);
+  });
+
+  test('receives notifications when a pattern starts and stops matching', () => {
+    const engine = new TriggerEngine(new ConceptStore());
+    const subscription = engine.subscribe(parseConcept('$who knows mary'));
+    const notifications: Notification[] = [];
+    const listener = (event: NotificationEvent) => {
+      notifications.push(event.notification);
+    };
+
+    subscription.addEventListener('match', listener);
+    subscription.addEventListener('unmatch', listener);
+
+    engine.add(...parseConcepts('john knows {mary, max}'));
+    engine.remove(...parseConcepts('john knows {mary, max}'));
+
+    expect(notifications.map(summarize)).toEqual([
+      {
+        type: 'match',
+        bindings: { $who: 'john' },
+        concept: 'john knows mary',
+        trigger: null,
+      },
+      {
+        type: 'unmatch',
+        bindings: { $who: 'john' },
+        concept: 'john knows mary',
+        trigger: null,
+      },
+    ]);
+  });
+
+  test('iterates over notifications asynchronously', async () => {
+    const engine = new TriggerEngine(new ConceptStore());
+    const subscription = engine.subscribe(parseConcept('$who knows mary'));
+    const received = (async () => {
+      const keys: string[] = [];
+
+      for await (const notification of subscription) {
+        keys.push(notification.concept.key);
+      }
+
+      return keys;
+    })();
+
+    engine.add(...parseConcepts('john knows mary, max knows {mary, john}'));
+    await Promise.resolve();
+    subscription.unsubscribe();
+
+    expect(await received).toEqual(['john knows mary', 'max knows mary']);
+    expect(engine.subscriptions.size).toBe(0);
+  });
+});
@@ -0,0 +1,122 @@
+import { Concept } from './concept';
+import { EventListenerCallback } from './lang/ast';
+import { Bindings, unify } from './match';
+
+export type NotificationType = 'notify' | 'match' | 'unmatch';
+
+export type Notification = {
+  type: NotificationType;
+  bindings: Bindings;
+  concept: Concept;
+  trigger: Concept | null;
+};
+
+export class NotificationEvent extends Event {
+  notification: Notification;
+
+  constructor(notification: Notification) {
+    super(notification.type);
+    this.notification = notification;
+  }
+}
+
+type Listener =
+  | EventListenerCallback<NotificationEvent>
+  | EventListenerOrEventListenerObject
+  | null;
+
+/**
+ * Lets host code hear about a channel that `@notifies` clauses send to, or
+ * about a pattern starting (`match`) and stopping (`unmatch`) to match, either
+ * through event listeners or by iterating over it asynchronously.
+ */
+export class Subscription
+  extends EventTarget
+  implements AsyncIterable<Notification>
+{
+  topic: string | Concept;
+  active = true;
+
+  constructor(topic: string | Concept) {
+    super();
+    this.topic = topic;
+  }
+
+  addEventListener(
+    type: NotificationType,
+    callback: EventListenerCallback<NotificationEvent>,
+  ): void;
+  addEventListener(...args: Parameters<EventTarget['addEventListener']>): void;
+  addEventListener(
+    type: string,
+    callback: Listener,
+    options?: boolean | AddEventListenerOptions,
+  ) {
+    super.addEventListener(type, callback as EventListener, options);
+  }
+
+  removeEventListener(
+    type: NotificationType,
+    callback: EventListenerCallback<NotificationEvent>,
+  ): void;
+  removeEventListener(
+    ...args: Parameters<EventTarget['removeEventListener']>
+  ): void;
+  removeEventListener(
+    type: string,
+    callback: Listener,
+    options?: boolean | EventListenerOptions,
+  ) {
+    super.removeEventListener(type, callback as EventListener, options);
+  }
+
+  /**
+   * Whether a change to a concept concerns a pattern subscription, returning
+   * the bindings of the pattern if so.
+   */
+  matchConcept(concept: Concept): Bindings | null {
+    return typeof this.topic === 'string' ? null : unify(this.topic, concept);
+  }
+
+  notify(notification: Notification) {
+    if (this.active) {
+      this.dispatchEvent(new NotificationEvent(notification));
+    }
+  }
+
+  unsubscribe() {
+    if (this.active) {
+      this.active = false;
+      this.dispatchEvent(new Event('unsubscribe'));
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<Notification> {
+    const buffer: Notification[] = [];
+    let wake: (() => void) | null = null;
+
+    const handleNotification = (event: NotificationEvent) => {
+      buffer.push(event.notification);
+      wake?.();
+    };
+    const handleUnsubscribe = () => wake?.();
+    const types: NotificationType[] = ['notify', 'match', 'unmatch'];
+
+    types.forEach(type => this.addEventListener(type, handleNotification));
+    this.addEventListener('unsubscribe', handleUnsubscribe);
+
+    try {
+      while (this.active || buffer.length) {
+        if (buffer.length) {
+          yield buffer.shift()!;
+        } else {
+          await new Promise<void>(resolve => (wake = resolve));
+          wake = null;
+        }
+      }
+    } finally {
+      types.forEach(type => this.removeEventListener(type, handleNotification));
+      this.removeEventListener('unsubscribe', handleUnsubscribe);
+    }
+  }
+}
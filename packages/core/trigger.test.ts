@@ -0,0 +1,543 @@
+import { describe, test, expect } from 'bun:test';
+import { Trigger, TriggerEngine } from './trigger';
+import { Concept } from './concept';
+import { FunctionRegistry, HostFunctionCall } from './functions';
+import { ConceptStore } from './store';
+import { parseConcepts } from './lang/parse';
+
+const grandparentTrigger = `
+  grandparent {
+    @matches {[$x parent-of $y], [$y parent-of $z]}
+    @adds $x grandparent-of $z
+  }
+`;
+
+const keys = (store: ConceptStore) =>
+  Array.from(store)
+    .filter(concept => !concept.is('TRIGGER_CLAUSE'))
+    .map(concept => concept.key);
+
+describe('TriggerEngine', () => {
+  test('fires triggers when their patterns become satisfied', () => {
+    const store = new ConceptStore();
+    const engine = new TriggerEngine(store);
+
+    engine.add(...parseConcepts(grandparentTrigger));
+    engine.add(...parseConcepts('anne parent-of bob'));
+
+    expect(keys(store)).toEqual(['anne parent-of bob']);
+
+    engine.add(...parseConcepts('bob parent-of carl'));
+
+    expect(keys(store)).toEqual([
+      'anne parent-of bob',
+      'bob parent-of carl',
+      'anne grandparent-of carl',
+    ]);
+  });
+
+  test('fires triggers loaded after their matches', () => {
+    const store = new ConceptStore(
+      parseConcepts('anne parent-of bob, bob parent-of {carl, cleo}'),
+    );
+    const engine = new TriggerEngine(store);
+
+    engine.add(...parseConcepts(grandparentTrigger));
+
+    expect(keys(store)).toEqual([
+      'anne parent-of bob',
+      'bob parent-of carl',
+      'bob parent-of cleo',
+      'anne grandparent-of carl',
+      'anne grandparent-of cleo',
+    ]);
+  });
+
+  test('fires triggers stored before the engine is created', () => {
+    const store = new ConceptStore(
+      parseConcepts(`
+        ${grandparentTrigger}
+        anne parent-of bob, bob parent-of carl
+      `),
+    );
+
+    new TriggerEngine(store);
+
+    expect(keys(store)).toEqual([
+      'anne parent-of bob',
+      'bob parent-of carl',
+      'anne grandparent-of carl',
+    ]);
+  });
+
+  test('fires triggers whose guards pass', () => {
+    const store = new ConceptStore();
+    const engine = new TriggerEngine(store);
+
+    engine.add(
+      ...parseConcepts(`
+        veteran {
+          @matches {[$who knows [$lang since $year]], [$year < 2000]}
+          @adds $who veteran-of $lang
+        }
+        john knows {[cobol since 1975], [typescript since 2012]}
+      `),
+    );
+    engine.add(...parseConcepts('mary knows [c since 1990]'));
+
+    expect(keys(store).filter(key => key.includes('veteran-of'))).toEqual([
+      'john veteran-of cobol',
+      'mary veteran-of c',
+    ]);
+  });
+
+  test('removes concepts', () => {
+    const store = new ConceptStore();
+    const engine = new TriggerEngine(store);
+
+    engine.add(
+      ...parseConcepts(`
+        order-shipped {
+          @matches $order status shipped
+          @removes $order status pending
+        }
+        order-1 status pending
+      `),
+    );
+    engine.add(...parseConcepts('order-1 status shipped'));
+
+    expect(keys(store)).toEqual(['order-1 status shipped']);
+  });
+
+  test('chains triggers until nothing changes', () => {
+    const store = new ConceptStore();
+    const engine = new TriggerEngine(store);
+
+    engine.add(
+      ...parseConcepts(`
+        ancestor-parent {
+          @matches $x parent-of $y
+          @adds $x ancestor-of $y
+        }
+        ancestor-transitive {
+          @matches {[$x ancestor-of $y], [$y ancestor-of $z]}
+          @adds $x ancestor-of $z
+        }
+        a parent-of b, b parent-of c, c parent-of d
+      `),
+    );
+
+    expect(
+      keys(store)
+        .filter(key => key.includes('ancestor-of'))
+        .sort(),
+    ).toEqual([
+      'a ancestor-of b',
+      'a ancestor-of c',
+      'a ancestor-of d',
+      'b ancestor-of c',
+      'b ancestor-of d',
+      'c ancestor-of d',
+    ]);
+  });
+
+  test('stops running away triggers', () => {
+    const engine = new TriggerEngine(new ConceptStore(), { maxSteps: 100 });
+
+    expect(() =>
+      engine.add(
+        ...parseConcepts(`
+          nest {
+            @matches $x nested
+            @adds [$x again] nested
+          }
+          a nested
+        `),
+      ),
+    ).toThrow('Triggers did not settle after 100 steps');
+  });
+
+  test('throws on unbound variables', () => {
+    const engine = new TriggerEngine(new ConceptStore());
+
+    expect(() =>
+      engine.add(
+        ...parseConcepts(`
+          broken {
+            @matches $x parent-of $y
+            @adds $x grandparent-of $z
+          }
+          a parent-of b
+        `),
+      ),
+    ).toThrow('Trigger broken has unbound variables in $x grandparent-of $z');
+  });
+
+  test('unloads removed trigger clauses', () => {
+    const store = new ConceptStore();
+    const engine = new TriggerEngine(store);
+    const clauses = parseConcepts(grandparentTrigger);
+
+    engine.add(...clauses);
+    engine.remove(...clauses);
+    engine.add(...parseConcepts('anne parent-of bob, bob parent-of carl'));
+
+    expect(engine.triggers.size).toBe(0);
+    expect(keys(store)).toEqual(['anne parent-of bob', 'bob parent-of carl']);
+  });
+
+  test('rejects concepts matching constraints', () => {
+    const store = new ConceptStore();
+    const engine = new TriggerEngine(store);
+
+    engine.add(
+      ...parseConcepts(`
+        single-parent {
+          @matches {[$x parent-of $y], [$y parent-of $x]}
+          @rejects $x parent-of-own-parent
+        }
+        anne parent-of bob
+      `),
+    );
+
+    expect(() =>
+      engine.add(...parseConcepts('bob parent-of carl, bob parent-of anne')),
+    ).toThrow('Trigger single-parent rejected: bob parent-of-own-parent');
+    expect(keys(store)).toEqual(['anne parent-of bob']);
+    expect(store.inTransaction).toBe(false);
+
+    engine.add(...parseConcepts('bob parent-of carl'));
+
+    expect(keys(store)).toEqual(['anne parent-of bob', 'bob parent-of carl']);
+  });
+
+  test('undoes only what a rejected add changed', () => {
+    const compiled: string[] = [];
+
+    class CountingEngine extends TriggerEngine {
+      protected compile(trigger: Trigger) {
+        compiled.push(trigger.name.key);
+        return super.compile(trigger);
+      }
+    }
+
+    const store = new ConceptStore();
+    const engine = new CountingEngine(store);
+
+    engine.add(
+      ...parseConcepts(`
+        ${grandparentTrigger}
+        no-cycles {
+          @matches $x grandparent-of $x
+          @rejects $x own-grandparent
+        }
+        anne parent-of bob
+      `),
+    );
+    compiled.length = 0;
+
+    expect(() => engine.add(...parseConcepts('bob parent-of anne'))).toThrow(
+      'Trigger no-cycles rejected',
+    );
+    expect(compiled).toEqual([]);
+    expect(keys(store)).toEqual(['anne parent-of bob']);
+
+    engine.add(...parseConcepts('bob parent-of carl'));
+
+    expect(keys(store)).toEqual([
+      'anne parent-of bob',
+      'bob parent-of carl',
+      'anne grandparent-of carl',
+    ]);
+  });
+
+  describe('transactions', () => {
+    test('evaluates triggers once over the net change', async () => {
+      const store = new ConceptStore();
+      const engine = new TriggerEngine(store);
+      const seen: string[] = [];
+
+      engine.add(
+        ...parseConcepts(`
+          ${grandparentTrigger}
+          count-grandparents {
+            @matches $x grandparent-of $z
+            @calls record $x $z
+          }
+        `),
+      );
+      engine.functions.register('record', ({ args }) => {
+        seen.push(args.map(arg => arg.key).join(' '));
+      });
+
+      const changes = await engine.transaction(() => {
+        engine.add(...parseConcepts('anne parent-of bob, bob parent-of carl'));
+
+        expect(keys(store)).toEqual([
+          'anne parent-of bob',
+          'bob parent-of carl',
+        ]);
+
+        engine.add(...parseConcepts('bob parent-of cleo'));
+        engine.remove(...parseConcepts('bob parent-of cleo'));
+      });
+
+      expect(keys(store)).toEqual([
+        'anne parent-of bob',
+        'bob parent-of carl',
+        'anne grandparent-of carl',
+      ]);
+      expect(changes.map(({ op, concept }) => [op, concept.key])).toEqual([
+        ['add', 'anne parent-of bob'],
+        ['add', 'bob parent-of carl'],
+        ['add', 'anne grandparent-of carl'],
+      ]);
+      expect(seen).toEqual(['anne carl']);
+    });
+
+    test('notifies subscriptions once committed', async () => {
+      const engine = new TriggerEngine(new ConceptStore());
+      const subscription = engine.subscribe(parseConcepts('$x knows $y')[0]);
+      const notified: string[] = [];
+
+      subscription.addEventListener('match', event => {
+        notified.push(event.notification.concept.key);
+      });
+
+      await engine.transaction(() => {
+        engine.add(...parseConcepts('john knows mary'));
+        expect(notified).toEqual([]);
+      });
+
+      expect(notified).toEqual(['john knows mary']);
+    });
+
+    test('rolls back when a constraint fails', async () => {
+      const store = new ConceptStore();
+      const engine = new TriggerEngine(store);
+      const subscription = engine.subscribe(
+        parseConcepts('$x parent-of $y')[0],
+      );
+      const notified: string[] = [];
+
+      subscription.addEventListener('match', event => {
+        notified.push(event.notification.concept.key);
+      });
+      engine.add(...parseConcepts(grandparentTrigger));
+
+      await expect(
+        engine.transaction(() => {
+          engine.add(
+            ...parseConcepts(`
+              no-cycles {
+                @matches $x grandparent-of $x
+                @rejects $x own-grandparent
+              }
+              anne parent-of bob, bob parent-of anne
+            `),
+          );
+        }),
+      ).rejects.toThrow('Trigger no-cycles rejected: bob own-grandparent');
+
+      expect(Array.from(store)).toHaveLength(3);
+      expect(Array.from(engine.triggers.keys())).toEqual(['grandparent']);
+      expect(notified).toEqual([]);
+      expect(store.inTransaction).toBe(false);
+    });
+
+    test('rolls back when an asynchronous call fails', async () => {
+      const store = new ConceptStore();
+      const functions = new FunctionRegistry().register(
+        'assign-id',
+        async () => {
+          throw new Error('Out of IDs');
+        },
+      );
+      const engine = new TriggerEngine(store, { functions });
+
+      engine.add(
+        ...parseConcepts(`
+          identify {
+            @matches $user signed-up
+            @calls assign-id $user
+          }
+        `),
+      );
+
+      await expect(
+        engine.transaction(() => {
+          engine.add(...parseConcepts('john signed-up'));
+        }),
+      ).rejects.toThrow(
+        'Trigger identify failed calling assign-id: Out of IDs',
+      );
+
+      expect(keys(store)).toEqual([]);
+
+      await engine.transaction(() => {
+        engine.remove(...store.findByTag('TRIGGER_CLAUSE'));
+      });
+
+      expect(Array.from(store)).toHaveLength(0);
+      expect(engine.triggers.size).toBe(0);
+    });
+  });
+
+  describe('@calls', () => {
+    const welcomeTrigger = `
+      welcome {
+        @matches $user signed-up
+        @calls send-email $user welcome
+      }
+    `;
+
+    test('calls host functions with bound variables', () => {
+      const calls: HostFunctionCall[] = [];
+      const functions = new FunctionRegistry().register('send-email', call => {
+        calls.push(call);
+      });
+      const engine = new TriggerEngine(new ConceptStore(), { functions });
+
+      engine.add(...parseConcepts(`${welcomeTrigger}, john signed-up`));
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].args.map(arg => arg.key)).toEqual(['john', 'welcome']);
+      expect(calls[0].bindings.$user.key).toBe('john');
+      expect(calls[0].concept.key).toBe('john signed-up');
+      expect(calls[0].trigger.key).toBe('welcome');
+    });
+
+    test('does not call again when clauses are added', () => {
+      const store = new ConceptStore();
+      const calls: HostFunctionCall[] = [];
+      const functions = new FunctionRegistry().register('send-email', call => {
+        calls.push(call);
+      });
+      const engine = new TriggerEngine(store, { functions });
+
+      engine.add(...parseConcepts(`${welcomeTrigger}, john signed-up`));
+      engine.add(...parseConcepts('welcome @adds $user welcomed'));
+
+      expect(calls).toHaveLength(1);
+      expect(keys(store)).toEqual(['john signed-up', 'john welcomed']);
+
+      engine.add(...parseConcepts('welcome @matches $user verified'));
+
+      expect(calls).toHaveLength(1);
+
+      engine.add(...parseConcepts('john verified'));
+
+      expect(calls).toHaveLength(2);
+    });
+
+    test('does not fire again for matches of patterns it had', () => {
+      const store = new ConceptStore();
+      const engine = new TriggerEngine(store);
+
+      engine.add(
+        ...parseConcepts(`
+          liked {
+            @matches $x likes $y
+            @adds $y liked
+          }
+          anne likes bob, bob age 30
+        `),
+      );
+      engine.remove(...parseConcepts('bob liked'));
+      engine.add(...parseConcepts('liked @matches $y age $n'));
+
+      expect(keys(store)).toEqual(['anne likes bob', 'bob age 30']);
+
+      engine.add(...parseConcepts('carl likes dana, dana age 25'));
+
+      expect(keys(store)).toContain('dana liked');
+    });
+
+    test('adds concepts returned by host functions', async () => {
+      const store = new ConceptStore();
+      const functions = new FunctionRegistry()
+        .register('send-email', ({ args: [user] }) =>
+          Concept.fromParts([user, new Concept('emailed')]),
+        )
+        .register('assign-id', async ({ args: [user] }) => [
+          Concept.fromParts([user, new Concept('id'), new Concept('1')]),
+        ]);
+      const engine = new TriggerEngine(store, { functions });
+
+      engine.add(
+        ...parseConcepts(`
+          ${welcomeTrigger}
+          identify {
+            @matches $user signed-up
+            @calls assign-id $user
+          }
+          john signed-up
+        `),
+      );
+
+      expect(keys(store)).toEqual(['john signed-up', 'john emailed']);
+
+      await engine.settled();
+
+      expect(keys(store)).toEqual([
+        'john signed-up',
+        'john emailed',
+        'john id 1',
+      ]);
+    });
+
+    test('reports errors against the calling trigger', async () => {
+      const functions = new FunctionRegistry()
+        .register('send-email', () => {
+          throw new Error('SMTP is down');
+        })
+        .register('assign-id', async () => {
+          throw new Error('Out of IDs');
+        });
+      const engine = new TriggerEngine(new ConceptStore(), { functions });
+
+      expect(() =>
+        engine.add(...parseConcepts(`${welcomeTrigger}, john signed-up`)),
+      ).toThrow('Trigger welcome failed calling send-email: SMTP is down');
+
+      engine.add(
+        ...parseConcepts(`
+          identify {
+            @matches $user signed-in
+            @calls assign-id $user
+          }
+          john signed-in
+        `),
+      );
+
+      await expect(engine.settled()).rejects.toThrow(
+        'Trigger identify failed calling assign-id: Out of IDs',
+      );
+    });
+
+    test('reports unknown functions', () => {
+      const engine = new TriggerEngine(new ConceptStore());
+
+      expect(() =>
+        engine.add(...parseConcepts(`${welcomeTrigger}, john signed-up`)),
+      ).toThrow('Trigger welcome called unknown function send-email');
+    });
+
+    test('times out host functions', async () => {
+      const functions = new FunctionRegistry().register(
+        'send-email',
+        () => new Promise(() => {}),
+      );
+      const engine = new TriggerEngine(new ConceptStore(), {
+        functions,
+        callTimeout: 10,
+      });
+
+      engine.add(...parseConcepts(`${welcomeTrigger}, john signed-up`));
+
+      await expect(engine.settled()).rejects.toThrow(
+        'Trigger welcome timed out calling send-email after 10ms',
+      );
+    });
+  });
+});
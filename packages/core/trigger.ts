@@ -1,7 +1,605 @@
+import { Concept } from './concept';
+import {
+  ConstraintViolationError,
+  HostFunctionError,
+  HostFunctionTimeoutError,
+  TriggerLimitError,
+  UnboundVariableError,
+  UnknownFunctionError,
+} from './errors';
+import { FunctionRegistry, HostFunctionResult } from './functions';
+import { Bindings, bind, isGround, isGuard } from './match';
+import { ReteMatch, ReteNetwork } from './rete';
+import { ConceptStore, StoreChange } from './store';
+import { Notification, Subscription } from './subscription';
+
 export enum TriggerDirective {
   Matches = '@matches',
   Adds = '@adds',
   Removes = '@removes',
   Notifies = '@notifies',
   Calls = '@calls',
+  Rejects = '@rejects',
+}
+
+/**
+ * A trigger is made up of every `TRIGGER_CLAUSE` concept sharing a name, e.g.
+ *
+ *   grandparent {
+ *     @matches {[$x parent-of $y], [$y parent-of $z]}
+ *     @adds $x grandparent-of $z
+ *   }
+ */
+export class Trigger {
+  name: Concept;
+  clauses = new Map<string, Concept>();
+
+  constructor(name: Concept) {
+    this.name = name;
+  }
+
+  /**
+   * The templates of the trigger's clauses with a directive, or of some of
+   * its clauses.
+   */
+  getTemplates(
+    directive: TriggerDirective,
+    clauses: Iterable<Concept> = this.clauses.values(),
+  ): Concept[] {
+    return Array.from(clauses)
+      .filter(clause => clause.parts[1].key === directive)
+      .map(clause => Concept.fromParts(clause.parts.slice(2)));
+  }
+}
+
+export type TriggerEngineOptions = {
+  maxSteps?: number;
+  functions?: FunctionRegistry;
+  callTimeout?: number;
+};
+
+/**
+ * Runs the triggers loaded into a store. Concepts added through the engine
+ * fire every trigger whose `@matches` patterns they newly satisfy, and the
+ * concepts those triggers add are processed in turn until nothing changes.
+ * Patterns are matched incrementally by a `ReteNetwork`, so that the work done
+ * for a concept depends on the triggers it concerns rather than on all of them.
+ *
+ * Triggers with `@rejects` clauses act as constraints, failing whatever adds
+ * a concept they match with the reason given. Each add is made in a store
+ * transaction of its own unless one is in progress, so that a failed add
+ * leaves the store as it was.
+ *
+ * Triggers already in the store when the engine is created fire once for the
+ * matches they have there, as if their clauses had just been added.
+ */
+export class TriggerEngine {
+  store: ConceptStore;
+  triggers = new Map<string, Trigger>();
+  subscriptions = new Set<Subscription>();
+  functions: FunctionRegistry;
+  maxSteps: number;
+  callTimeout: number;
+
+  protected network: ReteNetwork;
+  protected queue: Concept[] = [];
+  protected running = false;
+  protected pendingCalls = new Set<Promise<void>>();
+  protected callErrors: Error[] = [];
+  /** Whether changes go straight to the store, to be evaluated on commit */
+  protected batching = false;
+  /** Notifications held back until the transaction in progress commits */
+  protected heldNotifications: [Subscription, Notification][] | null = null;
+
+  constructor(store: ConceptStore, options: TriggerEngineOptions = {}) {
+    this.store = store;
+    this.functions = options.functions ?? new FunctionRegistry();
+    this.maxSteps = options.maxSteps ?? 10000;
+    this.callTimeout = options.callTimeout ?? 30000;
+    this.network = new ReteNetwork(store);
+
+    this.loadTriggers().forEach(match => {
+      this.fireMatches([match], match.concepts.at(-1)!);
+    });
+  }
+
+  add(...concepts: Concept[]) {
+    if (this.batching) {
+      concepts.forEach(concept => this.store.add(concept));
+      return this;
+    }
+
+    this.queue.push(...concepts);
+
+    // Changes made in a transaction in progress are undone with it
+    if (this.store.inTransaction) {
+      this.run();
+      return this;
+    }
+
+    this.store.begin();
+    this.heldNotifications = [];
+
+    try {
+      this.run();
+    } catch (error) {
+      this.rollback();
+      throw error;
+    }
+
+    this.commit();
+
+    return this;
+  }
+
+  remove(...concepts: Concept[]) {
+    concepts.forEach(concept => {
+      const removed = this.store.get(concept.key);
+
+      if (removed && this.store.remove(removed) && !this.batching) {
+        this.network.remove(removed);
+        this.unregisterClause(removed);
+        this.notifyPatterns('unmatch', removed);
+      }
+    });
+
+    return this;
+  }
+
+  /**
+   * Makes the changes of `fn` in a store transaction, and evaluates triggers
+   * once over their net change when it's done, so that derived concepts are
+   * never seen half-way. If `fn`, a trigger, a constraint or an `@calls` fails,
+   * everything is rolled back and nothing is notified. Resolves to the net
+   * changes, including those made by triggers.
+   */
+  async transaction(
+    fn: (engine: this) => void | Promise<void>,
+  ): Promise<StoreChange[]> {
+    this.store.begin();
+    this.heldNotifications = [];
+
+    try {
+      this.batching = true;
+
+      try {
+        await fn(this);
+      } finally {
+        this.batching = false;
+      }
+
+      const changes = this.store.getChanges();
+      const added = changes.filter(({ op }) => op === 'add');
+
+      changes
+        .filter(({ op }) => op === 'remove')
+        .forEach(({ concept }) => {
+          this.network.remove(concept);
+          this.unregisterClause(concept);
+          this.notifyPatterns('unmatch', concept);
+        });
+
+      // Concepts added by `fn` are taken out again to be processed like any
+      // other, which leaves them out of the net changes until they're back
+      added.forEach(({ concept }) => this.store.remove(concept));
+      this.add(...added.map(({ concept }) => concept));
+
+      await this.settled();
+    } catch (error) {
+      // Calls still running would otherwise add their results after rollback
+      while (this.pendingCalls.size) {
+        await Promise.all(this.pendingCalls);
+      }
+
+      this.callErrors = [];
+      this.rollback();
+
+      throw error;
+    }
+
+    return this.commit();
+  }
+
+  /**
+   * Waits for asynchronous `@calls` to finish, including those made by the
+   * triggers they cause to fire, and throws the errors they ran into.
+   */
+  async settled(): Promise<void> {
+    while (this.pendingCalls.size) {
+      await Promise.all(this.pendingCalls);
+    }
+
+    const errors = this.callErrors.splice(0);
+
+    if (errors.length > 1) {
+      throw new AggregateError(errors, 'Several @calls failed');
+    }
+
+    if (errors.length) {
+      throw errors[0];
+    }
+  }
+
+  /**
+   * Subscribes to a channel that `@notifies` clauses send to, or to a pattern
+   * starting and stopping to match concepts.
+   */
+  subscribe(topic: string | Concept): Subscription {
+    const subscription = new Subscription(topic);
+
+    this.subscriptions.add(subscription);
+    subscription.addEventListener('unsubscribe', () => {
+      this.subscriptions.delete(subscription);
+    });
+
+    return subscription;
+  }
+
+  /**
+   * Commits the transaction in progress, and sends the notifications held back
+   * until then.
+   */
+  protected commit(): StoreChange[] {
+    const changes = this.store.commit();
+    const notifications = this.heldNotifications ?? [];
+
+    this.heldNotifications = null;
+    notifications.forEach(([subscription, notification]) => {
+      subscription.notify(notification);
+    });
+
+    return changes;
+  }
+
+  /**
+   * Rolls back the transaction in progress, and drops the notifications held
+   * back. Only what the transaction changed is undone in the network and the
+   * triggers, so that a failure costs as much as the changes it undoes.
+   */
+  protected rollback() {
+    const changes = this.store.getChanges();
+    const triggers = new Map<string, Concept>();
+
+    this.heldNotifications = null;
+    this.store.rollback();
+
+    // Partial matches of the concepts taken back out are forgotten before
+    // those of the concepts put back in are found again
+    changes.forEach(({ op, concept }) => {
+      if (op === 'add') {
+        this.network.remove(concept);
+      }
+    });
+    changes.forEach(({ op, concept }) => {
+      if (op === 'remove') {
+        this.network.add(concept);
+      }
+
+      if (concept.is('TRIGGER_CLAUSE')) {
+        triggers.set(concept.parts[0].key, concept.parts[0]);
+      }
+    });
+
+    // The matches triggers had before the transaction have fired already
+    triggers.forEach(name => this.reloadTrigger(name));
+  }
+
+  protected run() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      for (let steps = 0; this.queue.length; steps++) {
+        if (steps >= this.maxSteps) {
+          throw new TriggerLimitError({ steps });
+        }
+
+        this.process(this.queue.shift()!);
+      }
+    } finally {
+      this.queue = [];
+      this.running = false;
+    }
+  }
+
+  /**
+   * Adds a concept to the store, and evaluates triggers against it before the
+   * next one is added so that each match fires exactly once.
+   */
+  protected process(concept: Concept) {
+    if (this.store.has(concept)) {
+      return;
+    }
+
+    this.store.add(concept);
+
+    this.notifyPatterns('match', concept);
+
+    if (concept.is('TRIGGER_CLAUSE')) {
+      this.addClause(concept);
+      return;
+    }
+
+    this.fireMatches(this.network.add(concept), concept);
+  }
+
+  protected fireMatches(matches: ReteMatch[], concept: Concept) {
+    matches.forEach(({ rule, bindings, concepts }) => {
+      const trigger = this.triggers.get(rule);
+
+      // Triggers fired before can remove the trigger or the concepts matched
+      if (trigger && concepts.every(matched => this.store.has(matched))) {
+        this.fire(trigger, bindings, concept);
+      }
+    });
+  }
+
+  /**
+   * Adds a clause to its trigger, and fires it for the matches the trigger
+   * already has. A `@matches` clause only narrows down the matches of the
+   * patterns before it, which have fired already, so it fires the trigger only
+   * when it's the first pattern.
+   */
+  protected addClause(clause: Concept) {
+    const trigger = this.getTrigger(clause.parts[0]);
+    const isPattern = clause.parts[1].key === TriggerDirective.Matches;
+    const hadPatterns = trigger
+      .getTemplates(TriggerDirective.Matches)
+      .some(pattern => !isGuard(pattern));
+
+    trigger.clauses.set(clause.key, clause);
+
+    const matches = this.compile(trigger);
+
+    if (isPattern && hadPatterns) {
+      return;
+    }
+
+    matches.forEach(({ bindings }) => {
+      this.fire(trigger, bindings, clause, isPattern ? undefined : [clause]);
+    });
+  }
+
+  /**
+   * Carries out the clauses of a trigger for a match, or only some of them.
+   */
+  protected fire(
+    trigger: Trigger,
+    bindings: Bindings,
+    concept: Concept,
+    clauses?: Concept[],
+  ) {
+    const getTemplates = (directive: TriggerDirective) =>
+      trigger.getTemplates(directive, clauses);
+    const [rejection] = getTemplates(TriggerDirective.Rejects);
+
+    if (rejection) {
+      throw new ConstraintViolationError({
+        trigger: trigger.name,
+        reason: this.bindTemplate(trigger, rejection, bindings),
+      });
+    }
+
+    getTemplates(TriggerDirective.Adds).forEach(template => {
+      this.add(this.bindTemplate(trigger, template, bindings));
+    });
+
+    getTemplates(TriggerDirective.Removes).forEach(template => {
+      this.remove(this.bindTemplate(trigger, template, bindings));
+    });
+
+    getTemplates(TriggerDirective.Calls).forEach(template => {
+      this.call(
+        trigger,
+        this.bindTemplate(trigger, template, bindings),
+        bindings,
+        concept,
+      );
+    });
+
+    getTemplates(TriggerDirective.Notifies).forEach(template => {
+      const channel = this.bindTemplate(trigger, template, bindings).key;
+
+      this.subscriptions.forEach(subscription => {
+        if (subscription.topic === channel) {
+          this.notify(subscription, {
+            type: 'notify',
+            bindings,
+            concept,
+            trigger: trigger.name,
+          });
+        }
+      });
+    });
+  }
+
+  /**
+   * Calls the host function named by the first part of a `@calls` template
+   * with the rest of its parts. Errors of synchronous functions are thrown
+   * right away, while those of asynchronous ones are thrown by `settled`.
+   */
+  protected call(
+    trigger: Trigger,
+    template: Concept,
+    bindings: Bindings,
+    concept: Concept,
+  ) {
+    const [name, ...args] = template.parts.length ? template.parts : [template];
+    const fn = this.functions.get(name.key);
+
+    if (!fn) {
+      throw new UnknownFunctionError({ trigger: trigger.name, name: name.key });
+    }
+
+    let result: ReturnType<typeof fn>;
+
+    try {
+      result = fn({ args, bindings, concept, trigger: trigger.name });
+    } catch (cause) {
+      throw new HostFunctionError({
+        trigger: trigger.name,
+        name: name.key,
+        cause,
+      });
+    }
+
+    if (!(result instanceof Promise)) {
+      this.addResult(result);
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout>;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(
+          new HostFunctionTimeoutError({
+            trigger: trigger.name,
+            name: name.key,
+            timeout: this.callTimeout,
+          }),
+        );
+      }, this.callTimeout);
+    });
+
+    const pendingCall = Promise.race([result, timeout])
+      .then(
+        asyncResult => this.addResult(asyncResult),
+        cause => {
+          throw cause instanceof HostFunctionTimeoutError
+            ? cause
+            : new HostFunctionError({
+                trigger: trigger.name,
+                name: name.key,
+                cause,
+              });
+        },
+      )
+      .catch(error => {
+        this.callErrors.push(error);
+      })
+      .finally(() => {
+        clearTimeout(timer);
+        this.pendingCalls.delete(pendingCall);
+      });
+
+    this.pendingCalls.add(pendingCall);
+  }
+
+  protected addResult(result: HostFunctionResult) {
+    if (result) {
+      this.add(...(Array.isArray(result) ? result : [result]));
+    }
+  }
+
+  protected notifyPatterns(type: 'match' | 'unmatch', concept: Concept) {
+    this.subscriptions.forEach(subscription => {
+      const bindings = subscription.matchConcept(concept);
+
+      if (bindings) {
+        this.notify(subscription, { type, bindings, concept, trigger: null });
+      }
+    });
+  }
+
+  protected notify(subscription: Subscription, notification: Notification) {
+    if (this.heldNotifications) {
+      this.heldNotifications.push([subscription, notification]);
+    } else {
+      subscription.notify(notification);
+    }
+  }
+
+  protected bindTemplate(
+    trigger: Trigger,
+    template: Concept,
+    bindings: Bindings,
+  ): Concept {
+    const concept = bind(template, bindings);
+
+    if (!isGround(concept)) {
+      throw new UnboundVariableError({ trigger: trigger.name, template });
+    }
+
+    return concept;
+  }
+
+  /**
+   * Compiles the triggers in the store, returning the matches they have there.
+   */
+  protected loadTriggers(): ReteMatch[] {
+    this.store.findByTag('TRIGGER_CLAUSE').forEach(clause => {
+      this.getTrigger(clause.parts[0]).clauses.set(clause.key, clause);
+    });
+
+    this.network.clear();
+
+    return Array.from(this.triggers.values()).flatMap(trigger =>
+      this.compile(trigger),
+    );
+  }
+
+  protected compile(trigger: Trigger) {
+    return this.network.setRule(
+      trigger.name.key,
+      trigger.getTemplates(TriggerDirective.Matches),
+    );
+  }
+
+  protected getTrigger(name: Concept): Trigger {
+    let trigger = this.triggers.get(name.key);
+
+    if (!trigger) {
+      trigger = new Trigger(name);
+      this.triggers.set(name.key, trigger);
+    }
+
+    return trigger;
+  }
+
+  /**
+   * Reloads a trigger from the clauses the store has of it, dropping it if
+   * there are none.
+   */
+  protected reloadTrigger(name: Concept) {
+    const clauses = Array.from(this.store.findByPart(0, name.key)).filter(
+      concept => concept.is('TRIGGER_CLAUSE'),
+    );
+
+    this.triggers.delete(name.key);
+
+    if (!clauses.length) {
+      this.network.deleteRule(name.key);
+      return;
+    }
+
+    const trigger = this.getTrigger(name);
+
+    clauses.forEach(clause => trigger.clauses.set(clause.key, clause));
+    this.compile(trigger);
+  }
+
+  protected unregisterClause(concept: Concept) {
+    if (!concept.is('TRIGGER_CLAUSE')) {
+      return;
+    }
+
+    const trigger = this.triggers.get(concept.parts[0].key);
+
+    if (!trigger) {
+      return;
+    }
+
+    trigger.clauses.delete(concept.key);
+
+    if (trigger.clauses.size === 0) {
+      this.triggers.delete(trigger.name.key);
+      this.network.deleteRule(trigger.name.key);
+    } else {
+      this.compile(trigger);
+    }
+  }
 }
@@ -11,3 +11,27 @@ export const cached = <T>(getter: () => T) => {
     return value;
   };
 };
+
+/**
+ * A set of named values that hosts can extend, such as functions and commands.
+ */
+export class Registry<T> {
+  protected entries = new Map<string, T>();
+
+  register(name: string, value: T) {
+    this.entries.set(name, value);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.entries.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  get(name: string): T | undefined {
+    return this.entries.get(name);
+  }
+}
@@ -0,0 +1,38 @@
+import { CustomError } from '@coeng/core/errors';
+import { ErrorCode } from './protocol';
+
+/**
+ * An error that's sent back in response to a request, with its JSON-RPC code.
+ */
+export class RequestError extends CustomError {
+  code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export class InvalidHeaderError extends RequestError {
+  constructor(header: string) {
+    super(
+      ErrorCode.ParseError,
+      `Message header lacks a Content-Length: ${header}`,
+    );
+  }
+}
+
+export class InvalidContentError extends RequestError {
+  constructor(cause: unknown) {
+    super(
+      ErrorCode.ParseError,
+      `Message content is not valid JSON: ${cause instanceof Error ? cause.message : cause}`,
+    );
+  }
+}
+
+export class MethodNotFoundError extends RequestError {
+  constructor(method: string) {
+    super(ErrorCode.MethodNotFound, `Unhandled method ${method}`);
+  }
+}
@@ -0,0 +1,43 @@
+#!/usr/bin/env bun
+import { RequestError } from './errors';
+import { Message } from './protocol';
+import { LanguageServer } from './server';
+import { encodeMessage, readMessages } from './transport';
+
+/**
+ * Speaks LSP over stdio, as editors expect of a language server command.
+ */
+const main = async () => {
+  const send = (message: Message) => {
+    process.stdout.write(encodeMessage(message));
+  };
+  const server = new LanguageServer(send);
+
+  for await (const message of readMessages(process.stdin)) {
+    // The id of a message that can't be read is unknown
+    if (message instanceof RequestError) {
+      send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: message.code, message: message.message },
+      });
+      continue;
+    }
+
+    try {
+      await server.handle(message);
+    } catch (error) {
+      // Notifications have no response to carry errors, so they're logged
+      console.error(error);
+    }
+
+    if (server.exitCode !== null) {
+      process.exit(server.exitCode);
+    }
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
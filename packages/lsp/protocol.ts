@@ -0,0 +1,114 @@
+/**
+ * The parts of the Language Server Protocol that the server speaks, see
+ * https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/
+ */
+
+export type RequestMessage = {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown;
+};
+
+export type NotificationMessage = {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+};
+
+export type ResponseMessage = {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: ResponseError;
+};
+
+export type ResponseError = {
+  code: number;
+  message: string;
+};
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+export enum ErrorCode {
+  ParseError = -32700,
+  MethodNotFound = -32601,
+  InternalError = -32603,
+  ServerNotInitialized = -32002,
+  InvalidRequest = -32600,
+}
+
+export type Position = {
+  line: number;
+  character: number;
+};
+
+export type Range = {
+  start: Position;
+  end: Position;
+};
+
+export type Location = {
+  uri: string;
+  range: Range;
+};
+
+export enum DiagnosticSeverity {
+  Error = 1,
+  Warning = 2,
+}
+
+export type Diagnostic = {
+  range: Range;
+  severity: DiagnosticSeverity;
+  code: string;
+  source: string;
+  message: string;
+};
+
+export type Hover = {
+  contents: { kind: 'markdown' | 'plaintext'; value: string };
+  range?: Range;
+};
+
+export enum CompletionItemKind {
+  Value = 12,
+  Keyword = 14,
+}
+
+export type CompletionItem = {
+  label: string;
+  kind: CompletionItemKind;
+};
+
+export enum TextDocumentSyncKind {
+  Full = 1,
+}
+
+export type TextDocumentPositionParams = {
+  textDocument: { uri: string };
+  position: Position;
+};
+
+export type InitializeParams = {
+  rootUri?: string | null;
+  workspaceFolders?: { uri: string }[] | null;
+};
+
+export type DidOpenTextDocumentParams = {
+  textDocument: { uri: string; text: string; version: number };
+};
+
+export type DidChangeTextDocumentParams = {
+  textDocument: { uri: string; version: number };
+  /** With full sync, the last change holds the whole text */
+  contentChanges: { text: string }[];
+};
+
+export type DidCloseTextDocumentParams = {
+  textDocument: { uri: string };
+};
+
+export type ReferenceParams = TextDocumentPositionParams & {
+  context?: { includeDeclaration: boolean };
+};
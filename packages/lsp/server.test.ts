@@ -0,0 +1,176 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { LanguageServer } from './server';
+import { ErrorCode, Message } from './protocol';
+
+describe('LanguageServer', () => {
+  let sent: Message[];
+  let server: LanguageServer;
+  let id: number;
+
+  const request = async (method: string, params: unknown = {}) => {
+    sent = [];
+    await server.handle({ jsonrpc: '2.0', id: ++id, method, params });
+    return sent.find(message => 'id' in message && message.id === id) as any;
+  };
+
+  const notify = async (method: string, params: unknown = {}) => {
+    sent = [];
+    await server.handle({ jsonrpc: '2.0', method, params });
+    return sent as any[];
+  };
+
+  const open = (uri: string, text: string) =>
+    notify('textDocument/didOpen', {
+      textDocument: { uri, text, version: 1, languageId: 'coeng' },
+    });
+
+  const at = (uri: string, line: number, character: number) => ({
+    textDocument: { uri },
+    position: { line, character },
+  });
+
+  beforeEach(async () => {
+    sent = [];
+    id = 0;
+    server = new LanguageServer(message => sent.push(message));
+    await request('initialize', { rootUri: null });
+  });
+
+  test('refuses requests before initializing', async () => {
+    server = new LanguageServer(message => sent.push(message));
+
+    expect((await request('textDocument/hover', {})).error.code).toBe(
+      ErrorCode.ServerNotInitialized,
+    );
+    expect((await request('foo/bar')).error.code).toBe(
+      ErrorCode.MethodNotFound,
+    );
+  });
+
+  test('publishes diagnostics as documents change', async () => {
+    const [published] = await open('file:///a.co', 'foo bar]');
+
+    expect(published.method).toBe('textDocument/publishDiagnostics');
+    expect(published.params.diagnostics).toEqual([
+      {
+        range: {
+          start: { line: 0, character: 7 },
+          end: { line: 0, character: 8 },
+        },
+        severity: 1,
+        code: 'UNEXPECTED_TOKEN',
+        source: 'coeng',
+        message: 'Unexpected R_SQUARE',
+      },
+    ]);
+
+    const [republished] = await notify('textDocument/didChange', {
+      textDocument: { uri: 'file:///a.co', version: 2 },
+      contentChanges: [{ text: 'foo bar' }],
+    });
+
+    expect(republished.params.diagnostics).toEqual([]);
+  });
+
+  test('ignores changes without content', async () => {
+    await open('file:///a.co', 'foo bar');
+
+    expect(
+      await notify('textDocument/didChange', {
+        textDocument: { uri: 'file:///a.co', version: 2 },
+        contentChanges: [],
+      }),
+    ).toEqual([]);
+    expect(server.workspace.get('file:///a.co')?.text).toBe('foo bar');
+  });
+
+  test('shows what branches expand to on hover', async () => {
+    await open('file:///a.co', 'john knows {mary, max} (person)\nfoo');
+
+    const { result } = await request(
+      'textDocument/hover',
+      at('file:///a.co', 0, 3),
+    );
+
+    expect(result.contents.value).toBe(
+      '```\nmary person\nmax person\njohn knows mary\njohn knows max\n```',
+    );
+    expect(
+      (await request('textDocument/hover', at('file:///a.co', 3, 0))).result,
+    ).toBeNull();
+  });
+
+  test('shows doc comments on hover', async () => {
+    await open(
+      'file:///a.co',
+      '/** Friends */\njohn knows {\n  /** From school */ mary\n  max\n}',
+    );
+
+    const { result } = await request(
+      'textDocument/hover',
+      at('file:///a.co', 1, 3),
+    );
+
+    expect(result.contents.value).toBe(
+      'From school\n\nFriends\n\n```\njohn knows mary\njohn knows max\n```',
+    );
+  });
+
+  test('completes atoms and directives used in the workspace', async () => {
+    await open('file:///a.co', 'grandparent @adds $x knows $y');
+
+    const { result } = await request(
+      'textDocument/completion',
+      at('file:///a.co', 0, 0),
+    );
+
+    expect(result).toEqual([
+      { label: 'grandparent', kind: 12 },
+      { label: '@adds', kind: 14 },
+      { label: 'knows', kind: 12 },
+    ]);
+  });
+
+  test('finds definitions and references across documents', async () => {
+    await open('file:///a.co', 'john knows mary');
+    await open('file:///b.co', '/** Someone */\nmary (person)\nmax likes mary');
+
+    const definitions = await request(
+      'textDocument/definition',
+      at('file:///a.co', 0, 12),
+    );
+
+    expect(definitions.result).toEqual([
+      {
+        uri: 'file:///b.co',
+        range: {
+          start: { line: 1, character: 0 },
+          end: { line: 1, character: 4 },
+        },
+      },
+    ]);
+
+    const references = await request('textDocument/references', {
+      ...at('file:///b.co', 2, 10),
+      context: { includeDeclaration: false },
+    });
+
+    expect(
+      references.result.map(({ uri, range }: any) => [uri, range.start.line]),
+    ).toEqual([
+      ['file:///a.co', 0],
+      ['file:///b.co', 2],
+    ]);
+  });
+
+  test('exits after shutting down', async () => {
+    expect((await request('shutdown')).result).toBeNull();
+    expect((await request('textDocument/hover', {})).error.code).toBe(
+      ErrorCode.InvalidRequest,
+    );
+
+    await notify('exit');
+
+    expect(server.exitCode).toBe(0);
+  });
+});
@@ -0,0 +1,311 @@
+import { fileURLToPath } from 'node:url';
+import { Diagnostic as SourceDiagnostic } from '@coeng/core/lang/diagnostics';
+import { CursorRange } from '@coeng/core/lang/tokens';
+import { TriggerDirective } from '@coeng/core/trigger';
+import { MethodNotFoundError, RequestError } from './errors';
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  DidChangeTextDocumentParams,
+  DidCloseTextDocumentParams,
+  DidOpenTextDocumentParams,
+  ErrorCode,
+  Hover,
+  InitializeParams,
+  Location,
+  Message,
+  Position,
+  Range,
+  ReferenceParams,
+  TextDocumentPositionParams,
+  TextDocumentSyncKind,
+} from './protocol';
+import { Occurrence, Workspace } from './workspace';
+
+/**
+ * The params of each method the server handles, which are trusted to be what
+ * the protocol says they are.
+ */
+type HandlerParams = {
+  initialize: InitializeParams;
+  initialized: unknown;
+  shutdown: unknown;
+  exit: unknown;
+  'textDocument/didOpen': DidOpenTextDocumentParams;
+  'textDocument/didChange': DidChangeTextDocumentParams;
+  'textDocument/didClose': DidCloseTextDocumentParams;
+  'textDocument/hover': TextDocumentPositionParams;
+  'textDocument/completion': unknown;
+  'textDocument/definition': TextDocumentPositionParams;
+  'textDocument/references': ReferenceParams;
+};
+
+type Handlers = {
+  [Method in keyof HandlerParams]: (params: HandlerParams[Method]) => unknown;
+};
+
+type Handler = (params: unknown) => unknown;
+
+const DIRECTIVES = new Set<string>(Object.values(TriggerDirective));
+
+/**
+ * Answers requests from an editor about the source documents of a workspace,
+ * and publishes their diagnostics whenever they change.
+ */
+export class LanguageServer {
+  workspace: Workspace;
+  /** Set once the client has asked the server to exit */
+  exitCode: number | null = null;
+
+  protected send: (message: Message) => void;
+  protected initialized = false;
+  protected shutdown = false;
+
+  protected handlers: Handlers = {
+    initialize: params => this.initialize(params),
+    initialized: () => {},
+    shutdown: () => {
+      this.shutdown = true;
+      return null;
+    },
+    exit: () => {
+      this.exitCode = this.shutdown ? 0 : 1;
+    },
+    'textDocument/didOpen': ({ textDocument }) =>
+      this.update(textDocument.uri, textDocument.text, textDocument.version),
+    'textDocument/didChange': ({ textDocument, contentChanges }) => {
+      const change = contentChanges.at(-1);
+
+      // A change that changes nothing leaves the document as it was
+      if (change) {
+        this.update(textDocument.uri, change.text, textDocument.version);
+      }
+    },
+    'textDocument/didClose': ({ textDocument }) => this.close(textDocument.uri),
+    'textDocument/hover': params => this.hover(params),
+    'textDocument/completion': () => this.complete(),
+    'textDocument/definition': params => this.findDefinitions(params),
+    'textDocument/references': params => this.findReferences(params),
+  };
+
+  constructor(send: (message: Message) => void, workspace = new Workspace()) {
+    this.send = send;
+    this.workspace = workspace;
+  }
+
+  async handle(message: Message) {
+    // The server doesn't send requests, so it doesn't expect responses
+    if (!('method' in message)) {
+      return;
+    }
+
+    const isRequest = 'id' in message;
+
+    try {
+      const result = await this.dispatch(message.method, message.params);
+
+      if (isRequest) {
+        this.send({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+      }
+    } catch (error) {
+      if (!isRequest) {
+        throw error;
+      }
+
+      this.send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code:
+            error instanceof RequestError
+              ? error.code
+              : ErrorCode.InternalError,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  protected dispatch(method: string, params: unknown) {
+    const handler = Object.hasOwn(this.handlers, method)
+      ? (this.handlers[method as keyof Handlers] as Handler)
+      : null;
+
+    if (!handler) {
+      // Notifications the server doesn't handle, such as $/cancelRequest,
+      // can be ignored
+      if (method.startsWith('$/')) {
+        return null;
+      }
+
+      throw new MethodNotFoundError(method);
+    }
+
+    if (!this.initialized && method !== 'initialize' && method !== 'exit') {
+      throw new RequestError(
+        ErrorCode.ServerNotInitialized,
+        'Server not initialized',
+      );
+    }
+
+    if (this.shutdown && method !== 'exit') {
+      throw new RequestError(ErrorCode.InvalidRequest, 'Server shut down');
+    }
+
+    return handler(params);
+  }
+
+  protected initialize(params: InitializeParams) {
+    const folders =
+      params.workspaceFolders?.map(folder => folder.uri) ??
+      (params.rootUri ? [params.rootUri] : []);
+
+    folders
+      .filter(uri => uri.startsWith('file:'))
+      .forEach(uri => this.workspace.load(fileURLToPath(uri)));
+
+    this.initialized = true;
+
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Full,
+        hoverProvider: true,
+        completionProvider: {},
+        definitionProvider: true,
+        referencesProvider: true,
+      },
+      serverInfo: { name: 'coeng-lsp' },
+    };
+  }
+
+  protected update(uri: string, text: string, version: number) {
+    const document = this.workspace.update(uri, text, version);
+
+    this.publishDiagnostics(uri, document.getDiagnostics());
+  }
+
+  protected close(uri: string) {
+    this.workspace.close(uri);
+    this.publishDiagnostics(uri, []);
+  }
+
+  protected publishDiagnostics(uri: string, diagnostics: SourceDiagnostic[]) {
+    this.send({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: { uri, diagnostics: diagnostics.map(toDiagnostic) },
+    });
+  }
+
+  /**
+   * Shows the concepts that the top-level branch under the cursor expands to,
+   * below the doc comments documenting them.
+   */
+  protected hover({
+    textDocument,
+    position,
+  }: TextDocumentPositionParams): Hover | null {
+    const branch = this.workspace
+      .get(textDocument.uri)
+      ?.findBranchAt(toLineColumn(position));
+
+    if (!branch?.concepts.length) {
+      return null;
+    }
+
+    const keys = branch.concepts.map(concept => concept.key).join('\n');
+    const docs = new Set(branch.concepts.flatMap(concept => concept.doc ?? []));
+
+    return {
+      contents: {
+        kind: 'markdown',
+        value: [...docs, `\`\`\`\n${keys}\n\`\`\``].join('\n\n'),
+      },
+      range: toRange(branch.loc),
+    };
+  }
+
+  /**
+   * Offers the atoms used across the workspace, leaving out variables since
+   * they only mean something within a trigger.
+   */
+  protected complete(): CompletionItem[] {
+    return Array.from(this.workspace.getAtoms())
+      .filter(atom => !atom.startsWith('$'))
+      .map(atom => ({
+        label: atom,
+        kind: DIRECTIVES.has(atom)
+          ? CompletionItemKind.Keyword
+          : CompletionItemKind.Value,
+      }));
+  }
+
+  protected findDefinitions({
+    textDocument,
+    position,
+  }: TextDocumentPositionParams): Location[] {
+    const token = this.workspace
+      .get(textDocument.uri)
+      ?.findAtomAt(toLineColumn(position));
+
+    return token
+      ? this.workspace.findDefinitions(token.value).map(toLocation)
+      : [];
+  }
+
+  protected findReferences({
+    textDocument,
+    position,
+    context,
+  }: ReferenceParams): Location[] {
+    const token = this.workspace
+      .get(textDocument.uri)
+      ?.findAtomAt(toLineColumn(position));
+
+    if (!token) {
+      return [];
+    }
+
+    const definitions = new Set(
+      this.workspace.findDefinitions(token.value).map(({ token }) => token),
+    );
+
+    return this.workspace
+      .findOccurrences(token.value)
+      .filter(
+        occurrence =>
+          context?.includeDeclaration !== false ||
+          !definitions.has(occurrence.token),
+      )
+      .map(toLocation);
+  }
+}
+
+// LSP counts lines and characters from 0, where tokens count them from 1
+const toLineColumn = ({ line, character }: Position) => ({
+  line: line + 1,
+  column: character + 1,
+});
+
+const toRange = ({ start, end }: CursorRange): Range => ({
+  start: { line: start.line - 1, character: start.column - 1 },
+  end: { line: end.line - 1, character: end.column - 1 },
+});
+
+const toLocation = ({ uri, token }: Occurrence): Location => ({
+  uri,
+  range: toRange(token.loc),
+});
+
+const toDiagnostic = (diagnostic: SourceDiagnostic): Diagnostic => ({
+  range: toRange(diagnostic.loc),
+  severity:
+    diagnostic.severity === 'error'
+      ? DiagnosticSeverity.Error
+      : DiagnosticSeverity.Warning,
+  code: diagnostic.code,
+  source: 'coeng',
+  message: diagnostic.message,
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect } from 'bun:test';
+import { encodeMessage, readMessages } from './transport';
+import { RequestError } from './errors';
+import { ErrorCode, Message } from './protocol';
+
+describe('readMessages', () => {
+  const messages: Message[] = [
+    { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+    { jsonrpc: '2.0', method: 'textDocument/didOpen', params: { text: 'ü' } },
+  ];
+
+  async function* chunk(bytes: Uint8Array, size: number) {
+    for (let i = 0; i < bytes.length; i += size) {
+      yield bytes.subarray(i, i + size);
+    }
+  }
+
+  test('reads messages however the input is split', async () => {
+    const bytes = Buffer.from(messages.map(encodeMessage).join(''));
+
+    for (const size of [1, 7, bytes.length]) {
+      expect(await Array.fromAsync(readMessages(chunk(bytes, size)))).toEqual(
+        messages,
+      );
+    }
+  });
+
+  test('yields parse errors in place of unreadable messages', async () => {
+    const bytes = Buffer.from(
+      [
+        'Content-Type: foo\r\n\r\n',
+        'Content-Length: 5\r\n\r\n{oops',
+        encodeMessage(messages[0]),
+      ].join(''),
+    );
+    const read = await Array.fromAsync(readMessages(chunk(bytes, 4)));
+    const [header, content, message] = read as [
+      RequestError,
+      RequestError,
+      Message,
+    ];
+
+    expect(read).toHaveLength(3);
+    expect([header.code, content.code]).toEqual([
+      ErrorCode.ParseError,
+      ErrorCode.ParseError,
+    ]);
+    expect(header.message).toBe(
+      'Message header lacks a Content-Length: Content-Type: foo',
+    );
+    expect(message).toEqual(messages[0]);
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  InvalidContentError,
+  InvalidHeaderError,
+  RequestError,
+} from './errors';
+import { Message } from './protocol';
+
+const HEADER_DELIMITER = '\r\n\r\n';
+
+/**
+ * Reads messages framed by `Content-Length` headers from a byte stream, such
+ * as stdin, however the stream is split into chunks. A message that can't be
+ * read is skipped, and yields the error to respond with in its place.
+ */
+export async function* readMessages(
+  input: AsyncIterable<Uint8Array>,
+): AsyncIterable<Message | RequestError> {
+  let buffer = Buffer.alloc(0);
+
+  for await (const chunk of input) {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    while (true) {
+      const headerEnd = buffer.indexOf(HEADER_DELIMITER);
+
+      if (headerEnd === -1) {
+        break;
+      }
+
+      const header = buffer.subarray(0, headerEnd).toString('ascii');
+      const length = getContentLength(header);
+      const start = headerEnd + HEADER_DELIMITER.length;
+
+      // Without a length, the content can't be told from the next header
+      if (length === null) {
+        buffer = buffer.subarray(start);
+        yield new InvalidHeaderError(header);
+        continue;
+      }
+
+      if (buffer.length < start + length) {
+        break;
+      }
+
+      const content = buffer.subarray(start, start + length).toString('utf8');
+
+      buffer = buffer.subarray(start + length);
+      yield parseContent(content);
+    }
+  }
+}
+
+export const encodeMessage = (message: Message): string => {
+  const content = JSON.stringify(message);
+
+  return `Content-Length: ${Buffer.byteLength(content)}${HEADER_DELIMITER}${content}`;
+};
+
+const getContentLength = (header: string): number | null => {
+  const match = /^content-length: *(\d+)$/im.exec(header);
+
+  return match ? Number(match[1]) : null;
+};
+
+const parseContent = (content: string): Message | RequestError => {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    return new InvalidContentError(error);
+  }
+};
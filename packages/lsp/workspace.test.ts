@@ -0,0 +1,94 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { SourceDocument, Workspace } from './workspace';
+
+describe('SourceDocument', () => {
+  const document = new SourceDocument(
+    'file:///a.co',
+    'john {\n  knows mary\n  likes & }\nmax (person), & oops',
+  );
+
+  test('expands each top-level branch', () => {
+    const branch = document.findBranchAt({ line: 2, column: 3 })!;
+
+    expect(branch.concepts.map(c => c.key)).toEqual([
+      'john knows mary',
+      'john likes john',
+    ]);
+    expect(branch.loc.start).toMatchObject({ line: 1, column: 1 });
+    expect(branch.loc.end).toMatchObject({ line: 3, column: 12 });
+    expect(
+      document.findBranchAt({ line: 4, column: 5 })!.concepts,
+    ).toHaveLength(2);
+  });
+
+  test('reports diagnostics', () => {
+    expect(document.getDiagnostics().map(d => d.code)).toEqual([
+      'UNRESOLVED_REFERENCE',
+    ]);
+  });
+
+  test('finds atoms and definitions', () => {
+    expect(document.findAtomAt({ line: 2, column: 5 })!.value).toBe('knows');
+    expect(document.findAtomAt({ line: 2, column: 8 })!.value).toBe('knows');
+    expect(document.definitions().map(token => token.value)).toEqual([
+      'john',
+      'max',
+    ]);
+  });
+});
+
+describe('Workspace', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'coeng-lsp-'));
+    fs.mkdirSync(path.join(dir, 'people'));
+    fs.mkdirSync(path.join(dir, 'node_modules'));
+    fs.writeFileSync(path.join(dir, 'people/john.co'), 'john knows mary');
+    fs.writeFileSync(path.join(dir, 'mary.co'), 'mary (person)');
+    fs.writeFileSync(path.join(dir, 'node_modules/dep.co'), 'mary');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'mary');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const uri = (file: string) => pathToFileURL(path.join(dir, file)).href;
+
+  test('loads source files and finds atoms across them', () => {
+    const workspace = new Workspace().load(dir);
+
+    expect(Array.from(workspace, document => document.uri).sort()).toEqual([
+      uri('mary.co'),
+      uri('people/john.co'),
+    ]);
+    expect(
+      workspace
+        .findOccurrences('mary')
+        .map(({ uri }) => uri)
+        .sort(),
+    ).toEqual([uri('mary.co'), uri('people/john.co')]);
+    expect(workspace.findDefinitions('mary').map(({ uri }) => uri)).toEqual([
+      uri('mary.co'),
+    ]);
+  });
+
+  test('goes back to files on disk when closing documents', () => {
+    const workspace = new Workspace().load(dir);
+
+    workspace.update(uri('mary.co'), 'mary likes john', 1);
+    workspace.update('untitled:1', 'foo');
+    expect(workspace.getAtoms()).toContain('likes');
+
+    workspace.close(uri('mary.co'));
+    workspace.close('untitled:1');
+
+    expect(workspace.get(uri('mary.co'))!.text).toBe('mary (person)');
+    expect(workspace.get('untitled:1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,242 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { Concept } from '@coeng/core/concept';
+import { AtomNode, BranchNode, RootNode } from '@coeng/core/lang/ast';
+import { Diagnostic } from '@coeng/core/lang/diagnostics';
+import { AstBuilder, ParseContext } from '@coeng/core/lang/parse';
+import { Cursor, CursorRange, Token, tokenize } from '@coeng/core/lang/tokens';
+import { cached } from '@coeng/core/utils';
+
+export const SOURCE_EXTENSION = '.co';
+
+export type LineColumn = Pick<Cursor, 'line' | 'column'>;
+
+export type Occurrence = {
+  uri: string;
+  token: Token;
+};
+
+/**
+ * A top-level branch of a document along with the concepts it expands to.
+ */
+export type SourceBranch = {
+  node: BranchNode;
+  loc: CursorRange;
+  concepts: Concept[];
+};
+
+/**
+ * A version of a source file, analyzed on demand.
+ */
+export class SourceDocument {
+  uri: string;
+  text: string;
+  version: number;
+
+  constructor(uri: string, text: string, version = 0) {
+    this.uri = uri;
+    this.text = text;
+    this.version = version;
+  }
+
+  tokens = cached<Token[]>(() => tokenize(this.text));
+
+  /**
+   * Builds the AST and expands each of its top-level branches, collecting the
+   * diagnostics of both rather than stopping at the first error.
+   */
+  analysis = cached<{ branches: SourceBranch[]; diagnostics: Diagnostic[] }>(
+    () => {
+      const builder = new AstBuilder({ recover: true });
+
+      this.tokens().forEach(token => builder.consumeToken(token));
+
+      const root = builder.close();
+      const diagnostics = builder.diagnostics!;
+      const branches = this.getBranches(root, diagnostics);
+
+      diagnostics.sort((a, b) => a.loc.start.offset - b.loc.start.offset);
+
+      return { branches, diagnostics };
+    },
+  );
+
+  /**
+   * Atom tokens grouped by their value.
+   */
+  atoms = cached<Map<string, Token[]>>(() => {
+    const atoms = new Map<string, Token[]>();
+
+    this.tokens()
+      .filter(token => token.type === 'ATOM')
+      .forEach(token => {
+        atoms.set(token.value, [...(atoms.get(token.value) ?? []), token]);
+      });
+
+    return atoms;
+  });
+
+  /**
+   * Atoms heading a top-level branch, as `john` does in `john knows mary`,
+   * which is where they're considered to be defined.
+   */
+  definitions = cached<Token[]>(() =>
+    this.analysis()
+      .branches.map(
+        ({ node }) => node.children[node.getLeadingComments().length],
+      )
+      .filter((node): node is AtomNode => node instanceof AtomNode)
+      .map(node => node.token!),
+  );
+
+  getDiagnostics(): Diagnostic[] {
+    return this.analysis().diagnostics;
+  }
+
+  findBranchAt(cursor: LineColumn): SourceBranch | null {
+    return (
+      this.analysis().branches.find(branch => contains(branch.loc, cursor)) ??
+      null
+    );
+  }
+
+  findAtomAt(cursor: LineColumn): Token | null {
+    return (
+      this.tokens().find(
+        token => token.type === 'ATOM' && contains(token.loc, cursor, true),
+      ) ?? null
+    );
+  }
+
+  /**
+   * Each branch spans from its first token up to the separator of the next
+   * one, since the AST doesn't keep closing brackets.
+   */
+  protected getBranches(
+    root: RootNode,
+    diagnostics: Diagnostic[],
+  ): SourceBranch[] {
+    const end = this.tokens().at(-1)?.loc.end;
+    const branches = root.children.filter(branch => branch.children.length);
+
+    return branches.map((node, index) => ({
+      node,
+      loc: {
+        start: node.children[0].token!.loc.start,
+        end: branches[index + 1]?.token?.loc.start ?? end!,
+      },
+      concepts: new ParseContext(null, [], [], diagnostics).expand(node),
+    }));
+  }
+}
+
+/**
+ * The source documents of a workspace, made up of the files in its folders
+ * and the documents opened in the editor, which take precedence over them.
+ */
+export class Workspace {
+  protected documents = new Map<string, SourceDocument>();
+
+  [Symbol.iterator]() {
+    return this.documents.values();
+  }
+
+  get(uri: string): SourceDocument | undefined {
+    return this.documents.get(uri);
+  }
+
+  /**
+   * Loads every source file under a folder, leaving out dependencies and
+   * hidden folders.
+   */
+  load(folder: string) {
+    fs.readdirSync(folder, { recursive: true, encoding: 'utf8' })
+      .filter(
+        file =>
+          file.endsWith(SOURCE_EXTENSION) &&
+          !file
+            .split(path.sep)
+            .some(name => name === 'node_modules' || name.startsWith('.')),
+      )
+      .forEach(file => {
+        const filePath = path.join(folder, file);
+        const uri = pathToFileURL(filePath).href;
+
+        if (!this.documents.has(uri)) {
+          this.update(uri, fs.readFileSync(filePath, 'utf8'));
+        }
+      });
+
+    return this;
+  }
+
+  update(uri: string, text: string, version?: number): SourceDocument {
+    const document = new SourceDocument(uri, text, version);
+    this.documents.set(uri, document);
+    return document;
+  }
+
+  /**
+   * Goes back to the contents on disk of a document closed in the editor, or
+   * forgets it if it isn't a file.
+   */
+  close(uri: string) {
+    const filePath = uri.startsWith('file:') ? fileURLToPath(uri) : null;
+
+    if (filePath && fs.existsSync(filePath)) {
+      this.update(uri, fs.readFileSync(filePath, 'utf8'));
+    } else {
+      this.documents.delete(uri);
+    }
+  }
+
+  findOccurrences(value: string): Occurrence[] {
+    return Array.from(this.documents.values()).flatMap(document =>
+      (document.atoms().get(value) ?? []).map(token => ({
+        uri: document.uri,
+        token,
+      })),
+    );
+  }
+
+  findDefinitions(value: string): Occurrence[] {
+    return Array.from(this.documents.values()).flatMap(document =>
+      document
+        .definitions()
+        .filter(token => token.value === value)
+        .map(token => ({ uri: document.uri, token })),
+    );
+  }
+
+  getAtoms(): Set<string> {
+    const atoms = new Set<string>();
+
+    this.documents.forEach(document => {
+      document.atoms().forEach((_, value) => atoms.add(value));
+    });
+
+    return atoms;
+  }
+}
+
+/**
+ * Whether a cursor is within a range, including its end when the range is a
+ * token's, so that a cursor right after an atom still points at it.
+ */
+const contains = (
+  range: CursorRange,
+  cursor: LineColumn,
+  inclusive = false,
+) => {
+  const position = toOrdinal(cursor);
+  const end = toOrdinal(range.end);
+
+  return (
+    toOrdinal(range.start) <= position &&
+    (inclusive ? position <= end : position < end)
+  );
+};
+
+// Lines and columns are compared rather than offsets, which LSP doesn't send
+const toOrdinal = ({ line, column }: LineColumn) => line * 2 ** 32 + column;